@@ -0,0 +1,191 @@
+import { config } from "dotenv";
+import path from "path";
+import { readFileSync } from "fs";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../src/lib/db/index";
+import { resources } from "../src/lib/db/schema/resources";
+import { getPodcastBySlug } from "../src/lib/ai/podcasts";
+import { getEmbeddingProvider } from "../src/lib/ai/embedding-providers";
+import { getEpisodeChunks } from "../src/lib/ai/episode-chunks";
+import {
+  contextualizeChunk,
+  generateChunkContexts,
+  getChunkContextSource,
+} from "../src/lib/ai/chunk-context";
+import { UsageContext } from "../src/lib/ai/usage";
+
+// Load environment variables from .env.local
+config({ path: path.join(__dirname, "..", ".env.local") });
+
+const USAGE = "Usage: pnpm eval-retrieval [--questions <file>] [--podcast <slug>] [--k 5]";
+const DEFAULT_QUESTIONS_PATH = path.join(__dirname, "eval", "retrieval-questions.json");
+
+// A question and where its answer is. A chunk answers it when it belongs to the
+// episode and, if expectedText is given, contains that text.
+interface EvalQuestion {
+  question: string;
+  episodeNumber: string;
+  expectedText?: string;
+}
+
+interface EvalChunk {
+  episodeNumber: string;
+  content: string;
+  rawEmbedding: number[];
+  contextualEmbedding: number[];
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ");
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Rank of the first chunk that answers the question, starting at 1, or null if none does
+ */
+function findAnswerRank(
+  question: EvalQuestion,
+  questionEmbedding: number[],
+  chunks: EvalChunk[],
+  variant: "rawEmbedding" | "contextualEmbedding"
+): number | null {
+  const ranked = chunks
+    .map((chunk) => ({ chunk, similarity: cosineSimilarity(questionEmbedding, chunk[variant]) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const expectedText = question.expectedText ? normalize(question.expectedText) : null;
+  const index = ranked.findIndex(({ chunk }) =>
+    chunk.episodeNumber === question.episodeNumber &&
+    (expectedText === null || normalize(chunk.content).includes(expectedText))
+  );
+  return index === -1 ? null : index + 1;
+}
+
+function summarize(ranks: (number | null)[], k: number) {
+  const hitsAt = (n: number) => ranks.filter((rank) => rank !== null && rank <= n).length / ranks.length;
+  return {
+    "hit@1": Number(hitsAt(1).toFixed(3)),
+    [`hit@${k}`]: Number(hitsAt(k).toFixed(3)),
+    mrr: Number((ranks.reduce<number>((sum, rank) => sum + (rank ? 1 / rank : 0), 0) / ranks.length).toFixed(3)),
+  };
+}
+
+// Compare retrieval with bare and contextual chunk embeddings on the eval questions.
+// The content chunks of every episode the questions name are embedded both ways in
+// memory and ranked against each question, so nothing stored is changed.
+async function main() {
+  const args = process.argv.slice(2);
+  let questionsPath = DEFAULT_QUESTIONS_PATH;
+  let podcastSlug: string | undefined;
+  let k = 5;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    if (args[i] === "--questions" && value) {
+      questionsPath = path.resolve(value);
+      i++;
+    } else if (args[i] === "--podcast" && value) {
+      podcastSlug = value;
+      i++;
+    } else if (args[i] === "--k" && value && Number(value) > 0) {
+      k = Number(value);
+      i++;
+    } else {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  }
+
+  try {
+    const questions: EvalQuestion[] = JSON.parse(readFileSync(questionsPath, "utf-8"));
+    const podcast = podcastSlug ? await getPodcastBySlug(podcastSlug) : null;
+    if (podcastSlug && !podcast) {
+      throw new Error(`No podcast registered with slug "${podcastSlug}"`);
+    }
+
+    const episodeNumbers = [...new Set(questions.map((question) => question.episodeNumber))];
+    const episodes = await db
+      .select({ id: resources.id, episodeNumber: resources.episodeNumber })
+      .from(resources)
+      .where(and(
+        inArray(resources.episodeNumber, episodeNumbers),
+        podcast ? eq(resources.podcastId, podcast.id) : undefined
+      ));
+
+    const missing = episodeNumbers.filter((number) => !episodes.some((episode) => episode.episodeNumber === number));
+    if (missing.length > 0) {
+      console.warn(`⚠️ Episodes not found, their questions can't be answered: ${missing.join(", ")}`);
+    }
+
+    const embeddingProvider = getEmbeddingProvider();
+    const usage: UsageContext = { step: "eval" };
+    const chunks: EvalChunk[] = [];
+
+    for (const episode of episodes) {
+      const stored = await getEpisodeChunks(episode.id, false);
+      if (stored.length === 0) {
+        console.warn(`⚠️ Episode ${episode.episodeNumber} has no chunks`);
+        continue;
+      }
+
+      // Reuse contexts stored by a contextual embed run, writing any that are missing
+      let contexts = stored.map((chunk) => chunk.context);
+      const source = contexts.some((context) => context === null) ? await getChunkContextSource(episode.id) : null;
+      if (source) {
+        const generated = await generateChunkContexts(source, stored, { ...usage, resourceId: episode.id });
+        contexts = contexts.map((context, i) => context ?? generated[i]);
+      }
+
+      console.log(`Embedding ${stored.length} chunks of episode ${episode.episodeNumber} both ways`);
+      const rawEmbeddings = await embeddingProvider.embedMany(stored.map((chunk) => chunk.content), usage);
+      const contextualEmbeddings = await embeddingProvider.embedMany(
+        stored.map((chunk, i) => contextualizeChunk(chunk.content, contexts[i])),
+        usage
+      );
+
+      stored.forEach((chunk, i) => chunks.push({
+        episodeNumber: episode.episodeNumber ?? "",
+        content: chunk.content,
+        rawEmbedding: rawEmbeddings[i],
+        contextualEmbedding: contextualEmbeddings[i],
+      }));
+    }
+
+    const questionEmbeddings = await embeddingProvider.embedMany(
+      questions.map((question) => question.question),
+      usage
+    );
+
+    const rawRanks: (number | null)[] = [];
+    const contextualRanks: (number | null)[] = [];
+    const perQuestion = questions.map((question, i) => {
+      const raw = findAnswerRank(question, questionEmbeddings[i], chunks, "rawEmbedding");
+      const contextual = findAnswerRank(question, questionEmbeddings[i], chunks, "contextualEmbedding");
+      rawRanks.push(raw);
+      contextualRanks.push(contextual);
+      return { question: question.question, episode: question.episodeNumber, raw: raw ?? "-", contextual: contextual ?? "-" };
+    });
+
+    console.log(`\nRank of the first answering chunk among ${chunks.length} chunks:`);
+    console.table(perQuestion);
+    console.table({
+      raw: summarize(rawRanks, k),
+      contextual: summarize(contextualRanks, k),
+    });
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error running retrieval eval:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,39 @@
+import { config } from "dotenv";
+import path from "path";
+import { mergeDuplicateGuests, mergeGuests } from "../src/lib/ai/guests";
+
+// Load environment variables from .env.local
+config({ path: path.join(__dirname, "..", ".env.local") });
+
+// Merge two spellings of the same guest: pnpm merge-guests "Rich Ryan" "Richard Ryan"
+// or every guest whose first name is a nickname of another's: pnpm merge-guests --duplicates
+async function main() {
+  const [fromName, intoName] = process.argv.slice(2);
+
+  if (fromName === "--duplicates") {
+    try {
+      const merged = await mergeDuplicateGuests();
+      console.log(`✅ Merged ${merged} duplicate guest(s)`);
+      process.exit(0);
+    } catch (error) {
+      console.error("❌ Error merging duplicate guests:", error);
+      process.exit(1);
+    }
+  }
+
+  if (!fromName || !intoName) {
+    console.error('Usage: pnpm merge-guests "<guest to merge away>" "<guest to keep>" | --duplicates');
+    process.exit(1);
+  }
+
+  try {
+    const guest = await mergeGuests(fromName, intoName);
+    console.log(`✅ Merged "${fromName}" into "${guest.name}" (aliases: ${guest.aliases.join(", ") || "none"})`);
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error merging guests:", error);
+    process.exit(1);
+  }
+}
+
+main();
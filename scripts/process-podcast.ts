@@ -1,6 +1,7 @@
 import { config } from "dotenv";
 import path from "path";
 import {
+  attachExistingArtifacts,
   checkDependencies,
   ensureDirectories,
   createResources,
@@ -8,96 +9,413 @@ import {
   generateEmbeddingsForEpisodes,
   generateSummaries,
 } from "../src/lib/ai/processors";
-import { downloadPodcastEpisodes, fetchPodcastFeed } from "../src/lib/ai/podcast-feed";
-import { MAX_EPISODES, EPISODES_OFFSET } from "../src/lib/ai/config";
+import { downloadPodcastEpisodes, fetchPodcastFeed, PodcastEpisode } from "../src/lib/ai/podcast-feed";
+import { getPodcastBySlug, getPodcasts } from "../src/lib/ai/podcasts";
+import { printFeedSyncReport, syncPodcastFeed } from "../src/lib/ai/feed-sync";
+import { Glossary, getGlossary } from "../src/lib/ai/glossary";
+import { extractEntities } from "../src/lib/ai/entities";
+import {
+  EpisodeFilters,
+  attachStoredResourceIds,
+  filterEpisodes,
+  hasEpisodeFilters,
+  selectStoredEpisodes,
+} from "../src/lib/ai/episode-selection";
+import {
+  printFailingEpisodes,
+  printRecentRuns,
+  printRunPlan,
+  printStatusTable,
+} from "../src/lib/ai/pipeline-report";
+import { countForRun, finishIngestRun, startIngestRun } from "../src/lib/ai/ingest-runs";
+import { purgeEpisodes } from "../src/lib/ai/episode-purge";
+import { Podcast } from "../src/lib/db/schema/podcasts";
+import { MAX_EPISODES, EPISODES_OFFSET, MONTHLY_BUDGET_USD, PIPELINE_BUDGET_USD } from "../src/lib/ai/config";
+import { getRunCost, startBudget } from "../src/lib/ai/usage";
+import { shouldAbortRun } from "../src/lib/ai/provider-client";
+import { getTranscriptionProvider } from "../src/lib/ai/transcription";
+import {
+  INGESTION_STAGES,
+  IngestionStage,
+  isIngestionStage,
+  runStage,
+} from "../src/lib/ai/ingestion-state";
 
 // Load environment variables from .env.local
 config({ path: path.join(__dirname, "..", ".env.local") });
 
-// Check for required environment variables
-const requiredEnvVars = ["DATABASE_URL", "OPENAI_API_KEY"];
-const missingEnvVars = requiredEnvVars.filter((envVar) => !process.env[envVar]);
+// Subcommands. "run" pages through the feed like the original script and is the default.
+const COMMANDS = ["run", "sync", ...INGESTION_STAGES, "reindex", "status", "purge"] as const;
+type Command = (typeof COMMANDS)[number];
+
+// Stages each command runs, in pipeline order
+const COMMAND_STAGES: Record<Command, readonly IngestionStage[]> = {
+  run: INGESTION_STAGES,
+  sync: INGESTION_STAGES,
+  download: ["download"],
+  transcribe: ["transcribe"],
+  summarize: ["summarize"],
+  embed: ["embed"],
+  extract: ["extract"],
+  // Rebuild the search index (chunks, embeddings and entity mentions) from existing transcripts
+  reindex: ["embed", "extract"],
+  status: [],
+  purge: [],
+};
+
+const USAGE = `Usage: pnpm process-podcast [command] [options]
+
+Commands:
+  run          Page through the feed and run every stage (default)
+  sync         Diff the feed against the database and run every stage for new, changed and unfinished episodes
+  download     Run only the download stage
+  transcribe   Run only the transcribe stage
+  summarize    Run only the summarize stage
+  embed        Run only the embed stage
+  extract      Run only the entity extraction stage
+  reindex      Rebuild chunks, embeddings and entity mentions from existing transcripts
+  status       Print recent runs, failing episodes and each episode's progress through the pipeline
+  purge        Delete episodes, their derived data and local files (requires a filter)
+
+Options:
+  --podcast <slug>   Only one show
+  --episode <n>      Only these episode numbers (repeat or comma-separate)
+  --guid <guid>      Only these feed guids (repeat or comma-separate)
+  --since <date>     Only episodes published on or after this date, e.g. 2024-01-01
+  --max <n>          At most n episodes (run defaults to ${MAX_EPISODES})
+  --offset <n>       Skip the first n matching episodes (run defaults to ${EPISODES_OFFSET})
+  --force [stage]    Rerun a stage and every later stage even if complete; a bare --force reruns a stage command's
+                     own stage, which stage commands also do when given --episode or --guid
+  --budget <usd>     Stop before spending more than this on AI calls (default: PIPELINE_BUDGET_USD)
+  --dry-run          Show what would run without changing anything`;
+
+interface PipelineOptions {
+  command: Command;
+  filters: EpisodeFilters;
+  force?: IngestionStage;
+  podcastSlug?: string;
+  budgetUsd?: number;
+  dryRun: boolean;
+}
 
-if (missingEnvVars.length > 0) {
-  console.error("❌ Missing required environment variables:");
-  missingEnvVars.forEach((envVar) => console.error(`   - ${envVar}`));
-  console.error(
-    "\nPlease add these to your .env.local file. See .env.example for reference."
-  );
+function isCommand(value: string): value is Command {
+  return (COMMANDS as readonly string[]).includes(value);
+}
+
+function exitWithUsage(message: string): never {
+  console.error(`❌ ${message}\n`);
+  console.error(USAGE);
   process.exit(1);
 }
 
-// Parse command line arguments for max episodes and offset
-const parseCommandLineArgs = () => {
+// Split "521,522" style values and append them to a list
+const appendValues = (list: string[] | undefined, value: string): string[] => [
+  ...(list ?? []),
+  ...value.split(",").map((item) => item.trim()).filter(Boolean),
+];
+
+// Parse the subcommand and its filters
+const parseCommandLineArgs = (): PipelineOptions => {
   const args = process.argv.slice(2);
-  let maxEpisodes = MAX_EPISODES;
-  let offset = EPISODES_OFFSET;
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--max' && i + 1 < args.length) {
-      const value = parseInt(args[i + 1], 10);
-      if (!isNaN(value) && value > 0) {
-        maxEpisodes = value;
+  let command: Command = "run";
+  const filters: EpisodeFilters = {};
+  let force: IngestionStage | undefined;
+  let forceCommandStage = false;
+  let podcastSlug: string | undefined;
+  let budgetUsd = PIPELINE_BUDGET_USD;
+  let dryRun = false;
+
+  let i = 0;
+  if (args[0] && !args[0].startsWith("--")) {
+    if (!isCommand(args[0])) {
+      exitWithUsage(`Unknown command: ${args[0]}`);
+    }
+    command = args[0];
+    i = 1;
+  }
+
+  for (; i < args.length; i++) {
+    const value = args[i + 1];
+    const hasValue = value !== undefined && !value.startsWith("--");
+
+    if (args[i] === '--max' && hasValue) {
+      const max = parseInt(value, 10);
+      if (!isNaN(max) && max > 0) {
+        filters.maxEpisodes = max;
+      }
+      i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--offset' && hasValue) {
+      const offset = parseInt(value, 10);
+      if (!isNaN(offset) && offset >= 0) {
+        filters.offset = offset;
+      }
+      i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--episode' && hasValue) {
+      filters.episodeNumbers = appendValues(filters.episodeNumbers, value);
+      i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--guid' && hasValue) {
+      filters.guids = appendValues(filters.guids, value);
+      i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--since' && hasValue) {
+      const since = new Date(value);
+      if (isNaN(since.getTime())) {
+        exitWithUsage(`Invalid date for --since: ${value}`);
       }
+      filters.since = since;
       i++; // Skip the next argument since we've consumed it
-    } else if (args[i] === '--offset' && i + 1 < args.length) {
-      const value = parseInt(args[i + 1], 10);
-      if (!isNaN(value) && value >= 0) {
-        offset = value;
+    } else if (args[i] === '--force') {
+      if (hasValue) {
+        if (!isIngestionStage(value)) {
+          exitWithUsage(`Unknown stage for --force: ${value}. Expected one of: ${INGESTION_STAGES.join(", ")}`);
+        }
+        force = value;
+        i++; // Skip the next argument since we've consumed it
+      } else {
+        forceCommandStage = true;
       }
+    } else if (args[i] === '--podcast' && hasValue) {
+      podcastSlug = value;
       i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--budget' && hasValue) {
+      const budget = Number(value);
+      if (isNaN(budget) || budget < 0) {
+        exitWithUsage(`Invalid amount for --budget: ${value}`);
+      }
+      budgetUsd = budget;
+      i++; // Skip the next argument since we've consumed it
+    } else if (args[i] === '--sync') {
+      // Kept from before subcommands existed
+      command = "sync";
+    } else if (args[i] === '--dry-run') {
+      dryRun = true;
+    } else if (args[i] === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    } else {
+      exitWithUsage(`Unknown option: ${args[i]}`);
     }
   }
 
-  return { maxEpisodes, offset };
+  // A bare --force reruns the command's own first stage, and so does naming
+  // the episodes for a single-stage command: the user asked for those episodes
+  const isTargetedStageCommand =
+    isIngestionStage(command) && Boolean(filters.episodeNumbers?.length || filters.guids?.length);
+  if ((forceCommandStage || isTargetedStageCommand) && !force) {
+    force = COMMAND_STAGES[command][0];
+  }
+  // Reindexing always rebuilds, whatever the recorded state
+  if (command === "reindex") {
+    force = "embed";
+  }
+
+  return { command, filters, force, podcastSlug, budgetUsd, dryRun };
 };
 
+// Make sure the environment has what the command needs
+const checkEnvironment = (command: Command) => {
+  const requiredEnvVars = COMMAND_STAGES[command].length > 0
+    ? ["DATABASE_URL", "OPENAI_API_KEY"]
+    : ["DATABASE_URL"];
+  const missingEnvVars = requiredEnvVars.filter((envVar) => !process.env[envVar]);
+
+  if (missingEnvVars.length > 0) {
+    console.error("❌ Missing required environment variables:");
+    missingEnvVars.forEach((envVar) => console.error(`   - ${envVar}`));
+    console.error(
+      "\nPlease add these to your .env.local file. See .env.example for reference."
+    );
+    process.exit(1);
+  }
+};
+
+// Resolve the shows to process: the one named with --podcast, or all of them
+const getTargetPodcasts = async (podcastSlug?: string): Promise<Podcast[]> => {
+  if (!podcastSlug) {
+    return getPodcasts();
+  }
+
+  const podcast = await getPodcastBySlug(podcastSlug);
+  if (!podcast) {
+    throw new Error(`No podcast registered with slug "${podcastSlug}"`);
+  }
+  return [podcast];
+};
+
+// Sync mode: diff the feed against the database and queue only new, changed or unfinished episodes
+async function getSyncedEpisodes(podcast: Podcast, { filters, dryRun }: PipelineOptions): Promise<PodcastEpisode[]> {
+  console.log("\nSyncing XML feed with existing episodes...");
+  const report = await syncPodcastFeed(podcast, { dryRun });
+  printFeedSyncReport(report);
+  return filterEpisodes(report.queue, filters);
+}
+
+// Paging mode: take a slice of the feed and create a resource for each episode
+async function getPagedEpisodes(podcast: Podcast, { filters, dryRun }: PipelineOptions): Promise<PodcastEpisode[]> {
+  console.log("\nExtracting podcast information from XML feed...");
+  // Episode filters search the whole feed; otherwise page with the defaults
+  const episodes = hasEpisodeFilters(filters)
+    ? filterEpisodes(await fetchPodcastFeed(podcast, Infinity, 0), filters)
+    : await fetchPodcastFeed(
+        podcast,
+        filters.maxEpisodes ?? MAX_EPISODES,
+        filters.offset ?? EPISODES_OFFSET
+      );
+
+  if (dryRun) {
+    return attachStoredResourceIds(podcast.id, episodes);
+  }
+
+  // Create resource for each episode so its progress can be tracked
+  console.log("\nCreating a resource for each episode...");
+  return createResources(episodes);
+}
+
+// Pick the episodes a command works on
+async function getEpisodes(podcast: Podcast, options: PipelineOptions): Promise<PodcastEpisode[]> {
+  switch (options.command) {
+    case "run":
+      return getPagedEpisodes(podcast, options);
+    case "sync":
+      return getSyncedEpisodes(podcast, options);
+    default:
+      return selectStoredEpisodes(podcast.id, options.filters);
+  }
+}
+
+// What each stage does, given the show it runs for
+const STAGE_STEPS: Record<
+  IngestionStage,
+  {
+    description: string;
+    run: (episodes: PodcastEpisode[], podcast: Podcast, glossary: Glossary) => Promise<PodcastEpisode[] | void>;
+  }
+> = {
+  download: {
+    description: "Downloading podcast episodes",
+    run: (episodes) => downloadPodcastEpisodes(episodes),
+  },
+  transcribe: {
+    description: "Creating a transcript for each episode",
+    run: (episodes, _podcast, glossary) => createTranscripts(episodes, glossary),
+  },
+  summarize: {
+    description: "Generating summaries, guest information and chapters for each episode",
+    run: (episodes, podcast, glossary) => generateSummaries(episodes, podcast.hosts, glossary),
+  },
+  embed: {
+    description: "Generating embeddings for each episode",
+    run: (episodes, _podcast, glossary) => generateEmbeddingsForEpisodes(episodes, glossary),
+  },
+  extract: {
+    description: "Extracting entity mentions for each episode",
+    run: (episodes, podcast) => extractEntities(episodes, podcast.hosts),
+  },
+};
+
+async function processShow(podcast: Podcast, options: PipelineOptions) {
+  const { command, force, dryRun } = options;
+  console.log(`\n=== ${podcast.name} ===`);
+
+  let episodes = await getEpisodes(podcast, options);
+  console.log(`${episodes.length} episode(s) selected`);
+  countForRun("episodesSelected", episodes.length);
+
+  if (command === "status") {
+    await printFailingEpisodes(podcast.id);
+    await printStatusTable(episodes, INGESTION_STAGES);
+    return;
+  }
+
+  if (command === "purge") {
+    const purged = await purgeEpisodes(episodes, dryRun);
+    console.log(`${dryRun ? "Would purge" : "Purged"} ${purged} episode(s)`);
+    return;
+  }
+
+  // Providers that read existing transcripts don't need the audio
+  const provider = getTranscriptionProvider();
+  const stages = COMMAND_STAGES[command].filter((stage) => stage !== "download" || provider.requiresAudio);
+  if (stages.length < COMMAND_STAGES[command].length) {
+    console.log(`Skipping the download stage: ${provider.name} transcription doesn't need audio`);
+  }
+  if (dryRun) {
+    await printRunPlan(episodes, stages, force);
+    return;
+  }
+
+  episodes = await attachExistingArtifacts(episodes);
+
+  // Names and jargon to hint to transcription and correct before summaries and chunking
+  const glossary = await getGlossary(podcast);
+
+  for (const stage of stages) {
+    const step = STAGE_STEPS[stage];
+    console.log(`\n${step.description}...`);
+    episodes = await runStage(stage, episodes, (pending) => step.run(pending, podcast, glossary), force);
+  }
+
+  console.log(`\nSummary for ${podcast.name}:`);
+  await printStatusTable(episodes, stages);
+}
+
 async function processPodcast() {
   try {
-    console.log("=== Running Public Podcast Processing Pipeline ===");
+    console.log("=== Podcast Processing Pipeline ===");
 
     // Parse command line arguments
-    const { maxEpisodes, offset } = parseCommandLineArgs();
-    console.log(`Processing with maxEpisodes=${maxEpisodes}, offset=${offset}`);
-
-    // Step 1: Check Dependencies
-    console.log("\nStep 1: Checking dependencies...");
-    const dependenciesAvailable = await checkDependencies();
-    if (!dependenciesAvailable) {
-      throw new Error("Required dependencies (ffmpeg, ffprobe) are missing");
+    const options = parseCommandLineArgs();
+    const { command, force, podcastSlug, budgetUsd, dryRun } = options;
+    checkEnvironment(command);
+
+    if (command === "purge" && !hasEpisodeFilters(options.filters)) {
+      exitWithUsage("purge needs --episode, --guid or --since to choose what to delete");
     }
 
-    // Step 2: Ensure necessary directories exist
-    console.log("\nStep 2: Ensuring necessary directories exist...");
-    await ensureDirectories();
+    console.log(`Running ${command} for ${podcastSlug ?? "all podcasts"}${force ? `, force=${force}` : ""}${dryRun ? " (dry run)" : ""}`);
 
-    // Step 3: Extract Podcast Episodes from XML Feed
-    console.log("\nStep 3: Extracting podcast information from XML feed...");
-    let episodes = await fetchPodcastFeed(maxEpisodes, offset);
-    
-    // Step 4: Download Podcast Episodes
-    console.log("\nStep 4: Downloading podcast episodes...");
-    episodes = await downloadPodcastEpisodes(episodes);
+    if (command === "status") {
+      await printRecentRuns();
+    } else if (!dryRun) {
+      // Keep a history of runs that change anything, with each episode's stage results
+      await startIngestRun(command, process.argv.slice(2));
+    }
 
-    // Step 5: Create resource for each downloaded episode
-    console.log("\nStep 5: Creating a resource for each episode...");
-    await createResources(episodes);
+    // Audio tools and working directories are only needed when stages run
+    if (COMMAND_STAGES[command].length > 0 && !dryRun) {
+      console.log("\nChecking dependencies...");
+      const dependenciesAvailable = await checkDependencies();
+      if (!dependenciesAvailable) {
+        throw new Error("Required dependencies (ffmpeg, ffprobe) are missing");
+      }
 
-    // Step 6: Create transcripts for each downloaded episode
-    console.log("\nStep 6: Creating a transcript for each episode...");
-    episodes = await createTranscripts(episodes);
+      console.log("\nEnsuring necessary directories exist...");
+      await ensureDirectories();
 
-    // Step 7: Generate summaries and summary embeddings for each episode.
-    console.log("\nStep 7: Generating summaries and guest information for each episode...");
-    episodes = await generateSummaries(episodes);
+      // Paid calls stop once either cap is reached
+      await startBudget(budgetUsd, MONTHLY_BUDGET_USD);
+    }
 
-    // Step 8: Generate embeddings for each episode
-    console.log("\nStep 8: Generating embeddings for each episode...");
-    await generateEmbeddingsForEpisodes(episodes);
+    const podcasts = await getTargetPodcasts(podcastSlug);
+    for (const podcast of podcasts) {
+      await processShow(podcast, options);
+    }
 
-    console.log("\n✅ Podcast processing completed successfully!");
+    if (COMMAND_STAGES[command].length > 0 && !dryRun) {
+      console.log(`\nEstimated AI cost of this run: $${getRunCost().toFixed(4)}`);
+    }
+    await finishIngestRun();
+    console.log(`\n✅ ${dryRun ? "Dry run" : "Podcast processing"} completed successfully!`);
     process.exit(0);
   } catch (error) {
+    await finishIngestRun(error).catch((finishError) =>
+      console.error("Could not record the end of the run:", finishError)
+    );
+
+    // Spending caps, bad credentials and exhausted quota stop the whole run
+    if (shouldAbortRun(error)) {
+      console.error(`🛑 Stopped: ${error.message}. Rerun to resume where this run left off.`);
+      process.exit(1);
+    }
     console.error("❌ Error in podcast processing pipeline:", error);
     process.exit(1);
   }
@@ -0,0 +1,79 @@
+import { config } from "dotenv";
+import path from "path";
+import { getPodcastBySlug } from "../src/lib/ai/podcasts";
+import { USAGE_GROUPINGS, UsageGrouping, getUsageReport } from "../src/lib/ai/usage";
+
+// Load environment variables from .env.local
+config({ path: path.join(__dirname, "..", ".env.local") });
+
+const USAGE = "Usage: pnpm usage-report [--by step|model|episode|day] [--since 2024-01-01] [--podcast <slug>]";
+
+function isUsageGrouping(value: string): value is UsageGrouping {
+  return (USAGE_GROUPINGS as readonly string[]).includes(value);
+}
+
+// Print recorded AI usage and estimated cost, grouped by step by default
+async function main() {
+  const args = process.argv.slice(2);
+  let groupBy: UsageGrouping = "step";
+  let since: Date | undefined;
+  let podcastSlug: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    if (args[i] === "--by" && value) {
+      if (!isUsageGrouping(value)) {
+        console.error(`❌ Unknown grouping: ${value}\n${USAGE}`);
+        process.exit(1);
+      }
+      groupBy = value;
+      i++;
+    } else if (args[i] === "--since" && value) {
+      since = new Date(value);
+      if (isNaN(since.getTime())) {
+        console.error(`❌ Invalid date for --since: ${value}\n${USAGE}`);
+        process.exit(1);
+      }
+      i++;
+    } else if (args[i] === "--podcast" && value) {
+      podcastSlug = value;
+      i++;
+    } else {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  }
+
+  try {
+    const podcast = podcastSlug ? await getPodcastBySlug(podcastSlug) : null;
+    if (podcastSlug && !podcast) {
+      throw new Error(`No podcast registered with slug "${podcastSlug}"`);
+    }
+
+    const rows = await getUsageReport(groupBy, since, podcast?.id);
+    if (rows.length === 0) {
+      console.log("No usage recorded.");
+      process.exit(0);
+    }
+
+    console.table(
+      rows.map((row) => ({
+        [groupBy]: row.key,
+        calls: row.calls,
+        inputTokens: row.inputTokens,
+        outputTokens: row.outputTokens,
+        audioMinutes: Number(row.audioMinutes.toFixed(1)),
+        costUsd: Number(row.costUsd.toFixed(4)),
+      }))
+    );
+
+    const total = rows.reduce((sum, row) => sum + row.costUsd, 0);
+    console.log(`Total estimated cost${since ? ` since ${since.toISOString().slice(0, 10)}` : ""}: $${total.toFixed(4)}`);
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error building usage report:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,63 +1,75 @@
 import { streamText, tool } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import { findRelevantContent } from '@/lib/ai/embedding.js';
+import { hybridSearch } from '@/lib/ai/hybrid-search';
 import { executeSafeQuery, getResourceStats } from '@/lib/ai/database-tools';
-import { CHAT_SYSTEM_PROMPT } from '@/lib/prompts/chat-system';
+import { createChatSystemPrompt } from '@/lib/prompts/chat-system';
 import { SUMMARY_MODEL } from '@/lib/ai/config';
+import { getPodcasts } from '@/lib/ai/podcasts';
+import { ENTITY_TYPES, searchEntities } from '@/lib/ai/entities';
+import { recordUsage, UsageContext } from '@/lib/ai/usage';
+import { nanoid } from '@/lib/db/schema/resources';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
+// Optional show filter shared by every tool
+const podcastParameter = z.string().optional().describe('Slug of the podcast to search. Omit to search all podcasts');
+
 export async function POST(req: Request) {
-  const { messages } = await req.json();
+  // "podcast" scopes the whole conversation to one show; without it the model may pick per tool call
+  const { messages, podcast } = await req.json();
+
+  const podcasts = await getPodcasts();
+  const selectedPodcast = podcasts.find(p => p.slug === podcast) ?? null;
+
+  // Map a tool's podcast slug to an ID, letting the conversation scope take precedence
+  const resolvePodcastId = (slug?: string) =>
+    selectedPodcast?.id ?? podcasts.find(p => p.slug === slug)?.id;
+
+  // Every model and embedding call made for this request is recorded under one ID
+  const usage: UsageContext = { step: 'chat', requestId: nanoid() };
 
   const result = streamText({
     model: openai(SUMMARY_MODEL),
-    system: CHAT_SYSTEM_PROMPT,
+    system: createChatSystemPrompt(podcasts, selectedPodcast),
     messages,
+    onFinish: async ({ usage: { promptTokens, completionTokens }, response }) => {
+      await recordUsage({
+        ...usage,
+        kind: 'completion',
+        model: response.modelId,
+        inputTokens: promptTokens,
+        outputTokens: completionTokens,
+      });
+    },
     tools: {
       getRelevantContent: tool({
-        description: 'Retrieve relevant podcast content based on the user query using semantic search and keyword matching',
+        description: 'Retrieve relevant podcast content based on the user query, combining semantic search with exact keyword matching. Each result lists which search matched it and, when a reranker is configured, its rerank score',
         parameters: z.object({
           query: z.string().describe('The user query to search for'),
-          exactMatch: z.boolean().optional().describe('If true, will prioritize exact keyword matching')
+          includeNonContent: z.boolean().optional().describe('If true, also search intros, ad reads and outros, e.g. when the user asks about sponsors or promotions'),
+          podcast: podcastParameter
         }),
-        execute: async ({ query, exactMatch = false }) => {
-          // If exact match is requested, use keyword search first
-          if (exactMatch) {
-            const keywordResults = await executeSafeQuery('search_embeddings', { keyword: query });
-            if (Array.isArray(keywordResults) && keywordResults.length > 0) {
-              return keywordResults;
-            }
-          }
-          
-          // Otherwise (or as fallback) use semantic search
-          const semanticResults = await findRelevantContent(query);
-          
-          // If we didn't find semantic results and haven't tried keyword search yet
-          if (typeof semanticResults === 'object' && 'content' in semanticResults && 
-              semanticResults.content === "No relevant content found" && !exactMatch) {
-            const keywordResults = await executeSafeQuery('search_embeddings', { keyword: query });
-            if (Array.isArray(keywordResults) && keywordResults.length > 0) {
-              return keywordResults;
-            }
-          }
-          
-          return semanticResults;
+        execute: async ({ query, includeNonContent = false, podcast }) => {
+          // Vector and full-text search run together and their rankings are fused
+          const results = await hybridSearch(query, { podcastId: resolvePodcastId(podcast), includeNonContent, usage });
+          return results.length > 0 ? results : { content: "No relevant content found" };
         }
       }),
       
       listPodcastEpisodes: tool({
         description: 'List all podcast episodes with basic information',
-        parameters: z.object({}),
-        execute: async () => {
-          return await executeSafeQuery('list_resources');
+        parameters: z.object({
+          podcast: podcastParameter
+        }),
+        execute: async ({ podcast }) => {
+          return await executeSafeQuery('list_resources', { podcastId: resolvePodcastId(podcast) });
         }
       }),
       
       getEpisodeDetails: tool({
-        description: 'Get detailed information about a specific episode',
+        description: 'Get detailed information about a specific episode, including its chapters',
         parameters: z.object({
           id: z.string().describe('The ID of the episode')
         }),
@@ -66,19 +78,52 @@ export async function POST(req: Request) {
         }
       }), 
       
+      listEpisodeChapters: tool({
+        description: 'List the chapters of a specific episode, each with a title, topic, short description and start time',
+        parameters: z.object({
+          guestName: z.string().optional().describe('Name of the guest who appeared on the episode'),
+          episodeNumber: z.string().optional().describe('The episode number'),
+          episodeTitle: z.string().optional().describe('Words from the episode title'),
+          id: z.string().optional().describe('The episode ID'),
+          podcast: podcastParameter
+        }),
+        execute: async ({ podcast, ...params }) => {
+          return await executeSafeQuery('episode_chapters', { ...params, podcastId: resolvePodcastId(podcast) });
+        }
+      }),
+      
+      findEntityMentions: tool({
+        description: 'Look up races, shoes, gear, nutrition products, books and coaches mentioned on the podcast, e.g. every shoe a host has recommended',
+        parameters: z.object({
+          type: z.enum(ENTITY_TYPES).optional().describe('Kind of thing to look up'),
+          name: z.string().optional().describe('Part of the name to match, e.g. a brand like "Hoka"'),
+          mentionedBy: z.string().optional().describe('Name of the host or guest who mentioned it'),
+          recommendedOnly: z.boolean().optional().describe('If true, only return mentions where the speaker recommended it'),
+          podcast: podcastParameter
+        }),
+        execute: async ({ podcast, ...search }) => {
+          const mentions = await searchEntities({ ...search, podcastId: resolvePodcastId(podcast) });
+          return mentions.length > 0 ? mentions : { content: "No matching mentions found" };
+        }
+      }),
+      
       getPodcastStats: tool({
         description: 'Get statistics about the podcast episodes and content',
-        parameters: z.object({}),
-        execute: async () => {
-          return await getResourceStats();
+        parameters: z.object({
+          podcast: podcastParameter
+        }),
+        execute: async ({ podcast }) => {
+          return await getResourceStats(resolvePodcastId(podcast));
         }
       }),
       
       listPodcastGuests: tool({
         description: 'Get a list of all guests who have appeared on the podcast',
-        parameters: z.object({}),
-        execute: async () => {
-          return await executeSafeQuery('list_guests');
+        parameters: z.object({
+          podcast: podcastParameter
+        }),
+        execute: async ({ podcast }) => {
+          return await executeSafeQuery('list_guests', { podcastId: resolvePodcastId(podcast) });
         }
       }),
       
@@ -88,10 +133,11 @@ export async function POST(req: Request) {
           guestName: z.string().optional().describe('Name of the guest who appeared on the episode'),
           episodeNumber: z.string().optional().describe('The episode number'),
           episodeTitle: z.string().optional().describe('Words from the episode title'),
-          id: z.string().optional().describe('The episode ID')
+          id: z.string().optional().describe('The episode ID'),
+          podcast: podcastParameter
         }),
-        execute: async (params) => {
-          return await executeSafeQuery('episode_content', params);
+        execute: async ({ podcast, ...params }) => {
+          return await executeSafeQuery('episode_content', { ...params, podcastId: resolvePodcastId(podcast) });
         }
       }),
     }
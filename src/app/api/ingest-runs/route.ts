@@ -0,0 +1,36 @@
+import { getPodcastBySlug } from '@/lib/ai/podcasts';
+import { listFailingEpisodes, listRecentRuns, listRunFailures } from '@/lib/ai/ingest-runs';
+import { isAdminRequest } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_RUNS = 50;
+
+// Latest pipeline runs with their failures, and every episode that is currently failing: ?limit=10&podcast=<slug>
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const limit = Math.min(Number(params.get('limit')) || 10, MAX_RUNS);
+
+  const podcastSlug = params.get('podcast');
+  const podcast = podcastSlug ? await getPodcastBySlug(podcastSlug) : null;
+  if (podcastSlug && !podcast) {
+    return Response.json({ error: `Unknown podcast: ${podcastSlug}` }, { status: 404 });
+  }
+
+  const runs = await listRecentRuns(limit);
+  const runsWithFailures = await Promise.all(
+    runs.map(async run => ({
+      ...run,
+      failures: run.failed > 0 ? await listRunFailures(run.id) : [],
+    }))
+  );
+
+  return Response.json({
+    runs: runsWithFailures,
+    failingEpisodes: await listFailingEpisodes(podcast?.id),
+  });
+}
@@ -0,0 +1,17 @@
+import { getPodcasts } from '@/lib/ai/podcasts';
+
+export const dynamic = 'force-dynamic';
+
+// List the registered shows with the settings the chat UI needs
+export async function GET() {
+  const podcasts = await getPodcasts();
+
+  return Response.json(
+    podcasts.map(podcast => ({
+      slug: podcast.slug,
+      name: podcast.name,
+      hosts: podcast.hosts,
+      suggestedQueries: podcast.suggestedQueries,
+    }))
+  );
+}
@@ -0,0 +1,39 @@
+import { getPodcastBySlug } from '@/lib/ai/podcasts';
+import { USAGE_GROUPINGS, UsageGrouping, getUsageReport } from '@/lib/ai/usage';
+import { isAdminRequest } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+// Recorded AI usage and estimated cost: ?by=step|model|episode|day&since=2024-01-01&podcast=<slug>
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const by = params.get('by') ?? 'step';
+  if (!(USAGE_GROUPINGS as readonly string[]).includes(by)) {
+    return Response.json({ error: `"by" must be one of: ${USAGE_GROUPINGS.join(', ')}` }, { status: 400 });
+  }
+
+  const sinceParam = params.get('since');
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return Response.json({ error: `Invalid "since" date: ${sinceParam}` }, { status: 400 });
+  }
+
+  const podcastSlug = params.get('podcast');
+  const podcast = podcastSlug ? await getPodcastBySlug(podcastSlug) : null;
+  if (podcastSlug && !podcast) {
+    return Response.json({ error: `Unknown podcast: ${podcastSlug}` }, { status: 404 });
+  }
+
+  const rows = await getUsageReport(by as UsageGrouping, since, podcast?.id);
+
+  return Response.json({
+    by,
+    since: since?.toISOString() ?? null,
+    totalCostUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+    rows,
+  });
+}
@@ -8,17 +8,44 @@ import { Input } from "@/components/ui/input";
 import { TextareaAutoResize } from "@/components/ui/textarea-auto-resize";
 import { Search, Heart } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { useRef, useEffect, FormEvent, ChangeEvent } from "react";
+import { useRef, useEffect, useMemo, useState, FormEvent, ChangeEvent } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { InitialQuerySuggestions } from "@/components/initial-query-suggestions";
 import { Spinner } from "@/components/ui/spinner";
+import {
+  ALL_PODCASTS,
+  PodcastOption,
+  PodcastSelector,
+} from "@/components/podcast-selector";
 
 export default function Home() {
+  const [podcasts, setPodcasts] = useState<PodcastOption[]>([]);
+  const [podcast, setPodcast] = useState<string>(ALL_PODCASTS);
+
   const { messages, input, handleInputChange, handleSubmit } = useChat({
     maxSteps: 3,
+    // Scope the conversation to the selected show, or search across all of them
+    body: { podcast: podcast === ALL_PODCASTS ? undefined : podcast },
   });
 
+  // Load the registered shows and their suggested queries
+  useEffect(() => {
+    fetch("/api/podcasts")
+      .then((response) => response.json())
+      .then((data: PodcastOption[]) => setPodcasts(data))
+      .catch((error) => console.error("Error loading podcasts:", error));
+  }, []);
+
+  // Suggestions come from the selected show, or every show when searching all
+  const suggestedQueries = useMemo(
+    () =>
+      podcasts
+        .filter((option) => podcast === ALL_PODCASTS || option.slug === podcast)
+        .flatMap((option) => option.suggestedQueries),
+    [podcasts, podcast]
+  );
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when messages change
@@ -80,7 +107,14 @@ export default function Home() {
             </Link>
           </div>
         </div>
-        <ThemeToggle />
+        <div className="flex items-center gap-4">
+          <PodcastSelector
+            podcasts={podcasts}
+            value={podcast}
+            onChange={setPodcast}
+          />
+          <ThemeToggle />
+        </div>
       </div>
 
       {/* Welcome Message & Query Suggestions */}
@@ -99,6 +133,7 @@ export default function Home() {
             </p>
 
             <InitialQuerySuggestions
+              queries={suggestedQueries}
               setInput={handleInputWrapper}
               handleSubmit={handleSuggestionSubmit}
             />
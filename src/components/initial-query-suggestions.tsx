@@ -1,15 +1,16 @@
 "use client";
 
-import { INITIAL_QUERIES } from "@/lib/ai/config";
 import { Card } from "@/components/ui/card";
 import { ChangeEvent, FormEvent, useState, useEffect } from "react";
 
 interface InitialQuerySuggestionsProps {
+  queries: string[];
   setInput: (e: string | ChangeEvent<HTMLInputElement> | ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void;
 }
 
 export function InitialQuerySuggestions({ 
+  queries,
   setInput, 
   handleSubmit 
 }: InitialQuerySuggestionsProps) {
@@ -18,9 +19,9 @@ export function InitialQuerySuggestions({
   
   // Select random queries only on the client side after hydration
   useEffect(() => {
-    const shuffled = [...INITIAL_QUERIES].sort(() => 0.5 - Math.random());
+    const shuffled = [...queries].sort(() => 0.5 - Math.random());
     setRandomQueries(shuffled.slice(0, 3));
-  }, []);
+  }, [queries]);
   
   const handleQueryClick = (query: string) => {
     // Set the input to the query text
@@ -0,0 +1,57 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown } from "lucide-react";
+
+export interface PodcastOption {
+  slug: string;
+  name: string;
+  hosts: string[];
+  suggestedQueries: string[];
+}
+
+// Value used for searching across every show
+export const ALL_PODCASTS = "all";
+
+interface PodcastSelectorProps {
+  podcasts: PodcastOption[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function PodcastSelector({ podcasts, value, onChange }: PodcastSelectorProps) {
+  // Nothing to choose between with a single show
+  if (podcasts.length < 2) {
+    return null;
+  }
+
+  const selected = podcasts.find((podcast) => podcast.slug === value);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          {selected ? selected.name : "All podcasts"}
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={value} onValueChange={onChange}>
+          <DropdownMenuRadioItem value={ALL_PODCASTS}>All podcasts</DropdownMenuRadioItem>
+          {podcasts.map((podcast) => (
+            <DropdownMenuRadioItem key={podcast.slug} value={podcast.slug}>
+              {podcast.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Whether a request may read admin-only API routes. Callers send
+ * "Authorization: Bearer <ADMIN_API_TOKEN>"; without the variable set the
+ * routes are closed to everyone.
+ */
+export function isAdminRequest(req: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return false;
+
+  return req.headers.get('authorization') === `Bearer ${token}`;
+}
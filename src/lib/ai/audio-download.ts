@@ -0,0 +1,188 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { IngestionState } from '../db/schema/ingestion-state';
+
+// Types
+export interface VerifiedAudioFile {
+  bytes: number;
+  sha256: string;
+}
+
+async function getSizeIfExists(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the SHA-256 of a file without loading it into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Whether a file is the exact copy recorded by an earlier verified download
+ */
+export async function matchesVerifiedDownload(filePath: string, state?: IngestionState): Promise<boolean> {
+  if (!state?.audioBytes || !state.audioSha256) {
+    return false;
+  }
+  return (await getSizeIfExists(filePath)) === state.audioBytes &&
+    (await hashFile(filePath)) === state.audioSha256;
+}
+
+/**
+ * Ask the server for the size of the file behind a URL
+ * @returns Content-Length, or null if the server doesn't report it
+ */
+async function getRemoteSize(url: string): Promise<number | null> {
+  try {
+    const response = await axios.head(url);
+    const length = parseInt(response.headers['content-length'], 10);
+    return isNaN(length) ? null : length;
+  } catch {
+    return null;
+  }
+}
+
+// What an existing file at the download path turned out to be
+type ExistingFileStatus = 'missing' | 'complete' | 'partial' | 'corrupt';
+
+/**
+ * Checks whether an existing file is a complete copy. Files are compared with
+ * the size and checksum recorded by an earlier verified download, or with the
+ * server's Content-Length for files downloaded before verification existed.
+ * Only a file smaller than the expected size is a partial download; a file of
+ * the right size with the wrong checksum, or a larger one, is corrupt.
+ */
+async function checkExistingFile(
+  filePath: string,
+  url: string,
+  state?: IngestionState
+): Promise<ExistingFileStatus> {
+  const size = await getSizeIfExists(filePath);
+  if (size === null) {
+    return 'missing';
+  }
+
+  if (state?.audioBytes) {
+    if (size < state.audioBytes) {
+      return 'partial';
+    }
+    if (size > state.audioBytes) {
+      return 'corrupt';
+    }
+    return !state.audioSha256 || (await hashFile(filePath)) === state.audioSha256 ? 'complete' : 'corrupt';
+  }
+
+  const remoteSize = await getRemoteSize(url);
+  if (remoteSize === null) {
+    // The Range request reports the total size, so resuming verifies the file
+    console.warn(`Can't verify ${path.basename(filePath)}: server did not report its size, resuming download`);
+    return 'partial';
+  }
+  if (size < remoteSize) {
+    return 'partial';
+  }
+  return size === remoteSize ? 'complete' : 'corrupt';
+}
+
+/**
+ * Parse the total size out of a "bytes 100-199/1000" Content-Range header
+ */
+function getTotalFromContentRange(contentRange?: string): number | null {
+  const total = contentRange?.split('/')[1];
+  const value = total && total !== '*' ? parseInt(total, 10) : NaN;
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Stream a URL into a temp file, resuming a partial download with an HTTP Range
+ * request, then verify its size and atomically move it into place
+ * @param url Audio file URL
+ * @param filePath Final location of the file
+ * @param state Ingestion state holding the size and checksum of an earlier verified download
+ * @returns Size and SHA-256 of the verified file
+ */
+export async function downloadAudioFile(
+  url: string,
+  filePath: string,
+  state?: IngestionState
+): Promise<VerifiedAudioFile> {
+  const filename = path.basename(filePath);
+  const partPath = `${filePath}.part`;
+
+  const existing = await checkExistingFile(filePath, url, state);
+
+  if (existing === 'complete') {
+    console.log(`File already exists: ${filename}, skipping download`);
+    const bytes = (await fs.promises.stat(filePath)).size;
+    return { bytes, sha256: state?.audioSha256 ?? (await hashFile(filePath)) };
+  }
+
+  if (existing === 'partial') {
+    // A file smaller than expected is treated as a partial download and resumed
+    console.warn(`Existing ${filename} is incomplete, resuming download`);
+    await fs.promises.rename(filePath, partPath);
+  } else if (existing === 'corrupt') {
+    // Resuming would keep the bad bytes, so start over from byte 0
+    console.warn(`Existing ${filename} doesn't match the verified download, downloading it again`);
+    await fs.promises.rm(filePath, { force: true });
+    await fs.promises.rm(partPath, { force: true });
+  }
+
+  let offset = (await getSizeIfExists(partPath)) ?? 0;
+
+  const response = await axios.get(url, {
+    responseType: 'stream',
+    headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+    validateStatus: (status) => status === 200 || status === 206 || status === 416,
+  });
+
+  let expectedBytes: number | null;
+
+  if (response.status === 416) {
+    // Nothing left to fetch, unless the temp file doesn't match the remote size
+    response.data.destroy();
+    expectedBytes = getTotalFromContentRange(response.headers['content-range']);
+    if (expectedBytes !== offset) {
+      await fs.promises.rm(partPath, { force: true });
+      throw new Error(`Partial download of ${filename} doesn't match the remote file, restarting next run`);
+    }
+  } else {
+    if (response.status === 206) {
+      console.log(`Resuming ${filename} from ${(offset / (1024 * 1024)).toFixed(1)}MB`);
+      expectedBytes = getTotalFromContentRange(response.headers['content-range']);
+    } else {
+      // The server ignored the Range header and sent the whole file
+      offset = 0;
+      const length = parseInt(response.headers['content-length'], 10);
+      expectedBytes = isNaN(length) ? null : length;
+    }
+
+    await pipeline(
+      response.data,
+      fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' })
+    );
+  }
+
+  // Verify before the file becomes visible under its final name
+  const bytes = (await fs.promises.stat(partPath)).size;
+  if (expectedBytes !== null && bytes !== expectedBytes) {
+    throw new Error(`Downloaded ${bytes} bytes of ${filename}, expected ${expectedBytes}`);
+  }
+
+  const sha256 = await hashFile(partPath);
+  await fs.promises.rename(partPath, filePath);
+  console.log(`Downloaded ${filename} (${(bytes / (1024 * 1024)).toFixed(1)}MB)`);
+
+  return { bytes, sha256 };
+}
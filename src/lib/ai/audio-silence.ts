@@ -0,0 +1,98 @@
+import { promisify } from "util";
+import { exec as execCallback } from "child_process";
+import {
+  SILENCE_MIN_DURATION_SECONDS,
+  SILENCE_NOISE_DB,
+  SILENCE_SEARCH_WINDOW_SECONDS,
+  SPLIT_OVERLAP_SECONDS,
+} from "./config";
+
+// Convert callback-based functions to Promise-based
+const exec = promisify(execCallback);
+
+// Types
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the silent stretches of an audio file with ffmpeg's silencedetect filter
+ * @param filePath Path to the audio file
+ * @returns Silences in playback order
+ */
+export async function detectSilences(filePath: string): Promise<Silence[]> {
+  // silencedetect reports on stderr; long episodes produce a lot of output
+  const { stderr } = await exec(
+    `ffmpeg -hide_banner -nostats -i "${filePath}" -af silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_DURATION_SECONDS} -f null -`,
+    { maxBuffer: 50 * 1024 * 1024 }
+  );
+
+  const silences: Silence[] = [];
+  let start: number | null = null;
+
+  for (const line of stderr.split("\n")) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && start !== null) {
+      silences.push({ start, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Choose where each audio piece starts. Boundaries are spread evenly, then
+ * moved into the longest nearby silence so words aren't cut in half.
+ * @param duration Length of the audio in seconds
+ * @param maxPieceSeconds Longest piece allowed, including its overlap into the next piece
+ * @param silences Silences detected in the audio
+ * @returns Start time of every piece, beginning with 0
+ */
+export function planSplitPoints(
+  duration: number,
+  maxPieceSeconds: number,
+  silences: Silence[]
+): number[] {
+  const maxStep = maxPieceSeconds - SPLIT_OVERLAP_SECONDS;
+  if (maxStep <= 0) {
+    throw new Error(
+      `Pieces of ${maxPieceSeconds}s are too short for a ${SPLIT_OVERLAP_SECONDS}s overlap`
+    );
+  }
+
+  const targetStep = duration / Math.ceil(duration / maxStep);
+  const starts = [0];
+  let cursor = 0;
+
+  while (duration - cursor > maxStep) {
+    const ideal = cursor + targetStep;
+    const latest = cursor + maxStep;
+    const earliest = Math.max(ideal - SILENCE_SEARCH_WINDOW_SECONDS, cursor + targetStep / 2);
+
+    // Prefer the longest pause in the window, then the one closest to the ideal cut
+    const candidates = silences
+      .map((silence) => ({
+        midpoint: (silence.start + silence.end) / 2,
+        length: silence.end - silence.start,
+      }))
+      .filter(({ midpoint }) => midpoint >= earliest && midpoint <= latest)
+      .sort(
+        (a, b) =>
+          b.length - a.length ||
+          Math.abs(a.midpoint - ideal) - Math.abs(b.midpoint - ideal)
+      );
+
+    cursor = candidates.length > 0 ? candidates[0].midpoint : Math.min(ideal, latest);
+    starts.push(cursor);
+  }
+
+  return starts;
+}
@@ -0,0 +1,175 @@
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db/index";
+import { Chapter, chapters as chaptersTable } from "../db/schema/chapters";
+import { CHAPTER_BLOCK_LENGTH, SUMMARY_MODEL } from "./config";
+import { TranscriptSegment, formatTimestamp } from "./transcript-timing";
+import { splitIntoSections } from "./summarization";
+import { createChaptersPrompt } from "../prompts/chapters";
+import { createChatCompletion } from "./provider-client";
+import { UsageContext } from "./usage";
+
+// Types
+export interface GeneratedChapter {
+  title: string;
+  topic: string;
+  blurb: string;
+  startSeconds: number | null;
+}
+
+// One chapter of the model's response. Malformed chapters are dropped, and a
+// missing topic or blurb is left empty.
+const rawChapterSchema = z.object({
+  startBlock: z.coerce.number().catch(NaN),
+  title: z.string().trim().min(1),
+  topic: z.string().trim().catch(""),
+  blurb: z.string().trim().catch(""),
+});
+
+const chaptersResponseSchema = z.object({
+  chapters: z.array(z.unknown()).catch([]),
+});
+
+interface TranscriptBlock {
+  text: string;
+  startSeconds: number | null;
+}
+
+/**
+ * Group the transcript into blocks the model can point at. Timed transcripts
+ * keep segment boundaries so every block has a start time.
+ */
+function createTranscriptBlocks(
+  transcript: string,
+  segments: TranscriptSegment[] | null
+): TranscriptBlock[] {
+  if (!segments) {
+    return splitIntoSections(transcript, CHAPTER_BLOCK_LENGTH).map((text) => ({
+      text,
+      startSeconds: null,
+    }));
+  }
+
+  const blocks: TranscriptBlock[] = [];
+  for (const segment of segments) {
+    const current = blocks[blocks.length - 1];
+    if (current && current.text.length + segment.text.length + 1 <= CHAPTER_BLOCK_LENGTH) {
+      current.text += ` ${segment.text}`;
+    } else {
+      blocks.push({ text: segment.text, startSeconds: segment.start });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Split an episode into titled chapters with a topic, blurb and start time
+ * @param episodeTitle The title of the episode
+ * @param transcript The transcript text
+ * @param segments Timed transcript segments, or null when the episode has no timing
+ * @param usage What the request is recorded against
+ * @returns Chapters in playback order
+ */
+export async function generateChapters(
+  episodeTitle: string,
+  transcript: string,
+  segments: TranscriptSegment[] | null,
+  usage: UsageContext = { step: "summarize" }
+): Promise<GeneratedChapter[]> {
+  const blocks = createTranscriptBlocks(transcript, segments);
+  if (blocks.length === 0) {
+    return [];
+  }
+
+  const response = await createChatCompletion(`Chapters of "${episodeTitle}"`, {
+    model: SUMMARY_MODEL,
+    messages: [
+      {
+        role: "system",
+        content: "You are a helpful assistant that writes show notes for podcasts."
+      },
+      {
+        role: "user",
+        content: createChaptersPrompt(
+          episodeTitle,
+          blocks.map((block) => ({
+            text: block.text,
+            timestamp: block.startSeconds !== null ? formatTimestamp(block.startSeconds) : null,
+          }))
+        )
+      }
+    ],
+    response_format: { type: "json_object" }
+  }, usage);
+
+  // Safely handle null content
+  const result = chaptersResponseSchema.safeParse(JSON.parse(response.choices[0].message.content || "{}"));
+  const rawChapters = (result.success ? result.data.chapters : []).flatMap((chapter) => {
+    const parsed = rawChapterSchema.safeParse(chapter);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+  // Keep chapters that point at a real block, in order and without duplicates
+  let previousBlock = -1;
+  const generated: GeneratedChapter[] = [];
+  for (const chapter of rawChapters) {
+    const startBlock = generated.length === 0 ? 0 : chapter.startBlock;
+    if (!Number.isInteger(startBlock) || startBlock <= previousBlock || startBlock >= blocks.length) {
+      continue;
+    }
+
+    previousBlock = startBlock;
+    generated.push({
+      title: chapter.title,
+      topic: chapter.topic,
+      blurb: chapter.blurb,
+      startSeconds: blocks[startBlock].startSeconds,
+    });
+  }
+
+  return generated;
+}
+
+/**
+ * Replace an episode's chapters
+ * @param resourceId ID of the episode's resource
+ * @param chapters Chapters in playback order
+ */
+export async function saveChapters(
+  resourceId: string,
+  chapters: GeneratedChapter[]
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.delete(chaptersTable).where(eq(chaptersTable.resourceId, resourceId));
+
+    if (chapters.length > 0) {
+      await tx.insert(chaptersTable).values(
+        chapters.map((chapter, position) => ({
+          resourceId,
+          position,
+          ...chapter,
+        }))
+      );
+    }
+  });
+}
+
+/**
+ * Get an episode's chapters in playback order
+ * @param resourceId ID of the episode's resource
+ * @returns Chapters with a formatted timestamp
+ */
+export async function getChapters(
+  resourceId: string
+): Promise<(Chapter & { timestamp: string | null })[]> {
+  const rows = await db
+    .select()
+    .from(chaptersTable)
+    .where(eq(chaptersTable.resourceId, resourceId))
+    .orderBy(asc(chaptersTable.position));
+
+  return rows.map((chapter) => ({
+    ...chapter,
+    timestamp: chapter.startSeconds !== null ? formatTimestamp(chapter.startSeconds) : null,
+  }));
+}
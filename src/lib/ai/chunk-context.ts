@@ -0,0 +1,162 @@
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db/index";
+import { resources } from "../db/schema/resources";
+import { getChapters } from "./chapters";
+import { CHUNK_CONTEXT_BATCH_SIZE, CHUNK_CONTEXT_CONCURRENCY, CHUNK_CONTEXT_MODEL } from "./config";
+import { getEpisodeGuestNames } from "./guests";
+import { mapWithConcurrency } from "./concurrency";
+import { createChatCompletion, shouldAbortRun } from "./provider-client";
+import { UsageContext } from "./usage";
+import { createChunkContextPrompt } from "../prompts/chunk-context";
+
+// Types
+export interface ChunkContextSource {
+  episodeTitle: string;
+  guests: string[];
+  summary: string | null;
+  // Chapters in playback order, used as the summary of each chunk's section
+  chapters: { title: string; blurb: string; startSeconds: number | null }[];
+}
+
+// One context line of the model's response; malformed entries are dropped
+const writtenContextSchema = z.object({
+  chunk: z.number().int(),
+  context: z.string().trim().min(1),
+});
+
+const chunkContextResponseSchema = z.object({
+  contexts: z.array(z.unknown()).catch([]),
+});
+
+export interface ContextChunk {
+  content: string;
+  startSeconds: number | null;
+}
+
+// Characters of the episode summary used as the section of episodes without chapters
+const MAX_SUMMARY_SECTION_LENGTH = 600;
+
+/**
+ * Load what chunk contexts are written from: the episode's title, guests,
+ * summary and chapters, as stored by the summarize stage. Guests come from
+ * the guest table, so merged spellings use the kept name.
+ * @param resourceId ID of the episode's resource
+ * @returns Context source, or null when the episode doesn't exist
+ */
+export async function getChunkContextSource(resourceId: string): Promise<ChunkContextSource | null> {
+  const [resource] = await db
+    .select({ title: resources.title, summary: resources.summary })
+    .from(resources)
+    .where(eq(resources.id, resourceId))
+    .limit(1);
+
+  if (!resource) {
+    return null;
+  }
+
+  return {
+    episodeTitle: resource.title ?? "",
+    guests: await getEpisodeGuestNames(resourceId),
+    summary: resource.summary,
+    chapters: await getChapters(resourceId),
+  };
+}
+
+/**
+ * Summary of the section a chunk belongs to: the chapter playing at the
+ * chunk's start time, or for untimed episodes the chapter at the same
+ * relative position. Falls back to the episode summary.
+ */
+function getSectionSummary(
+  source: ChunkContextSource,
+  chunk: ContextChunk,
+  chunkNumber: number,
+  chunkCount: number
+): string {
+  const { chapters } = source;
+  let chapter: ChunkContextSource["chapters"][number] | undefined;
+
+  if (chapters.length > 0 && chunk.startSeconds !== null && chapters.every((c) => c.startSeconds !== null)) {
+    chapter = chapters.filter((c) => c.startSeconds! <= chunk.startSeconds!).pop() ?? chapters[0];
+  } else if (chapters.length > 0) {
+    chapter = chapters[Math.floor((chunkNumber / chunkCount) * chapters.length)];
+  }
+
+  if (chapter) {
+    return chapter.blurb ? `${chapter.title}: ${chapter.blurb}` : chapter.title;
+  }
+  return source.summary?.substring(0, MAX_SUMMARY_SECTION_LENGTH) || "unknown";
+}
+
+/**
+ * Write a short line of context for each chunk of an episode. A batch the
+ * model fails on is left without context rather than failing the episode.
+ * @param source Episode title, guests, summary and chapters
+ * @param chunks Chunks in playback order
+ * @param usage What the requests are recorded against
+ * @returns One context line per chunk, null where none was written
+ */
+export async function generateChunkContexts(
+  source: ChunkContextSource,
+  chunks: ContextChunk[],
+  usage: UsageContext = { step: "embed" }
+): Promise<(string | null)[]> {
+  const contexts: (string | null)[] = chunks.map(() => null);
+
+  const batches: number[][] = [];
+  for (let start = 0; start < chunks.length; start += CHUNK_CONTEXT_BATCH_SIZE) {
+    batches.push(
+      Array.from({ length: Math.min(CHUNK_CONTEXT_BATCH_SIZE, chunks.length - start) }, (_, i) => start + i)
+    );
+  }
+
+  await mapWithConcurrency(batches, CHUNK_CONTEXT_CONCURRENCY, async (batch) => {
+    try {
+      const response = await createChatCompletion(`Chunk contexts for "${source.episodeTitle}"`, {
+        model: CHUNK_CONTEXT_MODEL,
+        messages: [
+          {
+            role: "system",
+            content: "You are a helpful assistant that situates podcast transcript fragments within their episode."
+          },
+          {
+            role: "user",
+            content: createChunkContextPrompt(
+              source.episodeTitle,
+              source.guests,
+              batch.map((index) => ({
+                number: index,
+                section: getSectionSummary(source, chunks[index], index, chunks.length),
+                content: chunks[index].content,
+              }))
+            )
+          }
+        ],
+        response_format: { type: "json_object" }
+      }, usage);
+
+      // Safely handle null content
+      const result = chunkContextResponseSchema.safeParse(JSON.parse(response.choices[0].message.content || "{}"));
+
+      for (const entry of result.success ? result.data.contexts : []) {
+        const parsed = writtenContextSchema.safeParse(entry);
+        if (parsed.success && batch.includes(parsed.data.chunk)) {
+          contexts[parsed.data.chunk] = parsed.data.context;
+        }
+      }
+    } catch (error) {
+      if (shouldAbortRun(error)) throw error;
+      console.warn(`Could not write context for chunks ${batch[0]}-${batch[batch.length - 1]} of "${source.episodeTitle}":`, error);
+    }
+  });
+
+  return contexts;
+}
+
+/**
+ * Text embedded for a chunk: its context line, when it has one, followed by the chunk
+ */
+export function contextualizeChunk(content: string, context: string | null): string {
+  return context ? `${context}\n\n${content}` : content;
+}
@@ -0,0 +1,29 @@
+/**
+ * Maps over items with at most `limit` calls in flight at once
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls
+ * @param fn Async function applied to each item
+ * @returns Results in the same order as the input
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker keeps pulling the next unclaimed item until none are left
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  );
+
+  return results;
+}
@@ -3,44 +3,115 @@ import { join } from "path";
 // Chunking parameters
 export const CHUNK_SIZE = 300;
 export const OVERLAP_SIZE = 50;
+// Search hits are expanded with the chunks around them, up to this many tokens per
+// hit counting each chunk in full. 0 returns the matched chunks alone.
+export const NEIGHBOR_WINDOW_TOKENS = Number(process.env.NEIGHBOR_WINDOW_TOKENS ?? 900);
 
-// Embedding model configuration
-export const EMBEDDING_MODEL = "text-embedding-3-small";
+// Keyword search runs on the generated search_vector columns. The text search
+// configuration must match theirs; changing it needs a new migration.
+export const FULL_TEXT_SEARCH_CONFIG = "english";
+export const KEYWORD_SEARCH_LIMIT = 10; // Chunks returned per keyword search
+
+// Hybrid retrieval runs vector and keyword search side by side and fuses the two rankings
+// with reciprocal rank fusion: a chunk scores weight / (HYBRID_RRF_K + rank) from each list it is in
+export const HYBRID_SEMANTIC_WEIGHT = Number(process.env.HYBRID_SEMANTIC_WEIGHT ?? 1);
+export const HYBRID_KEYWORD_WEIGHT = Number(process.env.HYBRID_KEYWORD_WEIGHT ?? 1);
+export const HYBRID_RRF_K = 60; // Damps the lead of the very top ranks
+export const HYBRID_CANDIDATE_COUNT = 20; // Chunks taken from each search before fusing
+
+// Reranking of the fused candidates before the best are returned: "none", "llm" or
+// "cross-encoder" (any /rerank endpoint, e.g. Hugging Face text-embeddings-inference serving an ONNX model)
+export const RERANKER = process.env.RERANKER || "none";
+export const RERANK_CANDIDATE_COUNT = 40; // Fused chunks scored by the reranker
+export const RERANK_MODEL = "gpt-4o-mini"; // Scores passages for the llm reranker
+export const RERANK_BATCH_SIZE = 10; // Passages per llm rerank request, scored in parallel
+export const CROSS_ENCODER_BASE_URL = process.env.CROSS_ENCODER_BASE_URL || "http://localhost:8080";
+export const CROSS_ENCODER_MODEL = process.env.CROSS_ENCODER_MODEL || "BAAI/bge-reranker-base";
+
+// Embedding configuration. Providers are registered in embedding-providers.ts:
+// "openai-small", "openai-large" or "local" (any OpenAI-compatible endpoint)
+export const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || "openai-small";
+// Dimensions of the pgvector columns. Changing this needs a new migration and a full re-embed.
+// Smaller vectors are zero-padded to fit, which leaves their cosine similarities unchanged.
+export const EMBEDDING_DIMENSIONS = 1536;
+export const LOCAL_EMBEDDING_BASE_URL = process.env.LOCAL_EMBEDDING_BASE_URL || "http://localhost:11434/v1";
+export const LOCAL_EMBEDDING_MODEL = process.env.LOCAL_EMBEDDING_MODEL || "nomic-embed-text";
+// Size of the local model's vectors (nomic-embed-text: 768), at most EMBEDDING_DIMENSIONS
+export const LOCAL_EMBEDDING_DIMENSIONS = Number(process.env.LOCAL_EMBEDDING_DIMENSIONS ?? 768);
+export const EMBEDDING_BATCH_SIZE = 100; // Texts sent per embedding request
+
+// Transcription model configuration
 export const TRANSCRIPTION_MODEL = "gpt-4o-mini-transcribe";
+export const TIMED_TRANSCRIPTION_MODEL = "whisper-1"; // gpt-4o-mini-transcribe can't return segment timestamps
+// Segment timestamps (citable times, chapter start times) need TIMED_TRANSCRIPTION_MODEL.
+// Set TIMED_TRANSCRIPTS=false to transcribe with the cheaper TRANSCRIPTION_MODEL and store untimed transcripts.
+export const TIMED_TRANSCRIPTS = process.env.TIMED_TRANSCRIPTS !== "false";
+
+// Transcription backend: "openai", "local-whisper" or "transcript-file"
+export const TRANSCRIPTION_PROVIDER = process.env.TRANSCRIPTION_PROVIDER || "openai";
+// Command for the local-whisper provider. {input} is a 16kHz mono WAV file,
+// {output} is the output path without extension and {output_dir} its directory.
+// {prompt} is the show's glossary as a quoted vocabulary hint.
+// The command must write {output}.srt, {output}.vtt or {output}.txt.
+// faster-whisper example: whisper-ctranslate2 {input} --model small --initial_prompt {prompt} --output_format srt --output_dir {output_dir}
+export const LOCAL_WHISPER_COMMAND =
+  process.env.LOCAL_WHISPER_COMMAND ||
+  "whisper-cli -m models/ggml-base.en.bin -f {input} --prompt {prompt} -osrt -of {output}";
 
 // AI model configuration
 export const SUMMARY_MODEL = "gpt-4o-mini";
-export const MAX_SUMMARY_TOKENS = 15000;
+// Long transcripts are summarized in sections of this many characters,
+// then the section summaries are combined into the episode summary
+export const SUMMARY_SECTION_LENGTH = 15000;
+export const SUMMARY_SECTION_CONCURRENCY = 4; // Sections summarized in parallel
+export const CHAPTER_BLOCK_LENGTH = 600; // Characters per numbered transcript block when finding chapter starts
+export const SEGMENT_CLASSIFICATION_MODEL = "gpt-4o-mini"; // Labels intro, ad read and outro chunks
+export const ENTITY_EXTRACTION_MODEL = "gpt-4o-mini"; // Finds races, gear, products, books and coaches
+export const ENTITY_EXTRACTION_BATCH_SIZE = 8; // Chunks sent per extraction request
+
+// Contextual chunk embeddings: when on, the embed stage writes a short line placing each
+// chunk in its episode (title, guests and chapter) and embeds it in front of the chunk.
+// The line is stored in embeddings.context; the chunk itself is stored and shown unchanged.
+export const CONTEXTUAL_EMBEDDINGS = process.env.CONTEXTUAL_EMBEDDINGS === "true";
+export const CHUNK_CONTEXT_MODEL = "gpt-4o-mini";
+export const CHUNK_CONTEXT_BATCH_SIZE = 10; // Chunks sent per context request
+export const CHUNK_CONTEXT_CONCURRENCY = 4; // Context requests in parallel
 
 // Podcast processing configuration
 export const MAX_EPISODES = 50; // Limiting to 10 episodes for quick testing
 export const EPISODES_OFFSET = 10; // Default offset for podcast episodes
-export const PODCAST_FEED_URL =
-  "https://feed.podbean.com/therunningpublic/feed.xml";
 export const MAX_TRANSCRIPTION_WORKERS = 10; // Maximum parallel workers for audio transcription
+export const DOWNLOAD_CONCURRENCY = Number(process.env.DOWNLOAD_CONCURRENCY) || 3; // Maximum parallel audio downloads
+
+// Provider calls (transcription, embeddings, completions) share one rate limiter.
+// Rate limits and transient errors are retried with exponential backoff, honoring Retry-After.
+export const PROVIDER_MAX_CONCURRENCY = Number(process.env.PROVIDER_MAX_CONCURRENCY) || 8; // Requests in flight at once
+export const PROVIDER_TOKENS_PER_MINUTE = Number(process.env.PROVIDER_TOKENS_PER_MINUTE) || 200000; // Estimated prompt tokens sent per minute
+export const PROVIDER_MAX_RETRIES = 5;
+export const PROVIDER_RETRY_BASE_DELAY_MS = 1000; // Doubled on each retry
+export const PROVIDER_RETRY_MAX_DELAY_MS = 60000;
+
+// Spending caps in USD, enforced before each paid call of a pipeline run. Unset means no cap.
+// The run cap can be overridden with --budget; the monthly cap includes chat usage.
+export const PIPELINE_BUDGET_USD = process.env.PIPELINE_BUDGET_USD ? Number(process.env.PIPELINE_BUDGET_USD) : undefined;
+export const MONTHLY_BUDGET_USD = process.env.MONTHLY_BUDGET_USD ? Number(process.env.MONTHLY_BUDGET_USD) : undefined;
+// Calls reserve their estimated cost while in flight, so parallel calls can't overshoot a cap
+export const COMPLETION_OUTPUT_TOKENS_ESTIMATE = 1000; // Output tokens reserved for completions without max_tokens
 
 // Audio File Constants
 export const AUDIO_FILES_DIR = join(process.cwd(), "data", "audio_files");
 export const CHUNKS_DIR = join(process.cwd(), "data", "audio_chunks");
 export const TRANSCRIPTS_DIR = join(process.cwd(), "data", "transcripts");
+export const EXTERNAL_TRANSCRIPTS_DIR = join(process.cwd(), "data", "external_transcripts"); // Bring-your-own .srt/.vtt/.txt files
+export const LOCAL_WHISPER_DIR = join(process.cwd(), "data", "local_whisper");
 export const MAX_SIZE_MB = 5;
 export const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024;
 export const MAX_DURATION_SECONDS = 600; // Maximum duration in seconds (staying under the 1500s limit)
 
-export const INITIAL_QUERIES = [
-  "What are Kirk and Brakken's thoughts on marathon training for beginners?",
-  "Tell me about the best workouts for improving 5K speed",
-  "How do the hosts approach recovery after hard training?",
-  "What nutrition advice do they share for race day?",
-  "What have they said about preventing common running injuries?",
-  "Tell me about their favorite episodes on mental training",
-  "What gear recommendations have been mentioned for trail running?",
-  "How do they structure base building phases?",
-  "What's their approach to interval training?",
-  "Who are some notable guests they've had on obstacle course racing?",
-  "What have they discussed about balancing running with strength training?",
-  "How do they approach training for hilly races?",
-  "What are their thoughts on running form and technique?",
-  "Tell me about their personal training philosophies",
-  "What have they said about fueling for long runs?",
-];
+// Audio splitting. Pieces are cut inside silences found by ffmpeg's silencedetect
+// near each target boundary, and every piece but the last runs SPLIT_OVERLAP_SECONDS
+// into the next one so words at the cut are heard in full by at least one piece.
+export const SPLIT_OVERLAP_SECONDS = 5;
+export const SILENCE_SEARCH_WINDOW_SECONDS = 60; // How far before a target boundary to look for a silence
+export const SILENCE_NOISE_DB = -35; // Anything quieter counts as silence
+export const SILENCE_MIN_DURATION_SECONDS = 0.4;
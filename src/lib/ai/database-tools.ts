@@ -1,14 +1,46 @@
 import { db } from '../db';
-import { sql } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 import { resources } from '../db/schema/resources';
 import { embeddings } from '../db/schema/embeddings';
+import { getChapters } from './chapters';
+import { findLatestEpisodeWithGuest, listGuests } from './guests';
+import { getEpisodeChunks } from './episode-chunks';
+import { searchEpisodesByKeyword, searchTranscriptChunks } from './keyword-search';
+
+// Resource columns returned to the chat. The summary embedding and the full-text
+// search document are left out, since they'd only fill the model's context.
+const resourceColumns = {
+  id: resources.id,
+  podcastId: resources.podcastId,
+  guid: resources.guid,
+  title: resources.title,
+  link: resources.link,
+  pubDate: resources.pubDate,
+  description: resources.description,
+  enclosureUrl: resources.enclosureUrl,
+  author: resources.author,
+  duration: resources.duration,
+  episodeNumber: resources.episodeNumber,
+  episodeType: resources.episodeType,
+  summary: resources.summary,
+  guests: resources.guests,
+  createdAt: resources.createdAt,
+  updatedAt: resources.updatedAt,
+};
+
+/**
+ * Restricts a query to one show's episodes when a podcast ID is given
+ */
+function inPodcast(podcastId?: string) {
+  return podcastId ? eq(resources.podcastId, podcastId) : undefined;
+}
 
 /**
  * Executes a SQL query against the database
  * IMPORTANT: This should only be used with predetermined safe queries
  * to avoid SQL injection risks
  */
-export async function executeSafeQuery(queryType: 'list_resources' | 'resource_details' | 'search_embeddings' | 'list_guests' | 'episode_content', params?: Record<string, any>) {
+export async function executeSafeQuery(queryType: 'list_resources' | 'resource_details' | 'search_embeddings' | 'list_guests' | 'episode_content' | 'episode_chapters', params?: Record<string, any>) {
   try {
     switch (queryType) {
       case 'list_resources':
@@ -22,107 +54,36 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
             guests: resources.guests
           })
           .from(resources)
+          .where(inPodcast(params?.podcastId))
           .orderBy(resources.pubDate);
       
       case 'resource_details':
-        // Get details for a specific episode
+        // Get details for a specific episode, with its chapters
         if (!params?.id) throw new Error('Episode ID is required');
-        return await db
-          .select()
+        const details = await db
+          .select(resourceColumns)
           .from(resources)
           .where(sql`${resources.id} = ${params.id}`)
           .limit(1);
+        
+        return await Promise.all(details.map(async resource => ({
+          ...resource,
+          chapters: await getChapters(resource.id)
+        })));
       
       case 'search_embeddings':
-        // Search for content across all episodes (limited to prevent abuse)
+        // Full-text search over transcript chunks, best matches first with highlighted snippets
         if (!params?.keyword) throw new Error('Search keyword is required');
         
-        // First get matching embeddings
-        const matchingEmbeddings = await db
-          .select({
-            id: embeddings.id,
-            content: embeddings.content,
-            resourceId: embeddings.resourceId
-          })
-          .from(embeddings)
-          .where(sql`${embeddings.content} ILIKE ${'%' + params.keyword + '%'}`)
-          .limit(10);
-        
-        // If no results, return early
-        if (!matchingEmbeddings.length) {
-          return [];
-        }
-        
-        // Get all the unique resource IDs
-        const resourceIds = [...new Set(matchingEmbeddings.map(e => e.resourceId))];
-        
-        // Get episode details for these resources
-        const matchingEpisodes = await db
-          .select({
-            id: resources.id,
-            title: resources.title,
-            episodeNumber: resources.episodeNumber
-          })
-          .from(resources)
-          .where(sql`${resources.id} IN (${resourceIds.filter(Boolean).join(',')})`);
-          
-        // Create a map of resource IDs to episode details
-        const episodeMap = new Map();
-        matchingEpisodes.forEach(episode => {
-          episodeMap.set(episode.id, episode);
+        return await searchTranscriptChunks(params.keyword, {
+          podcastId: params.podcastId,
+          // Intros, ad reads and outros only when asked for
+          includeNonContent: params.includeNonContent
         });
-        
-        // Add episode context to each embedding result
-        return matchingEmbeddings.map(embed => ({
-          ...embed,
-          episode: episodeMap.get(embed.resourceId) || { title: 'Unknown', episodeNumber: 'Unknown' }
-        }));
           
       case 'list_guests':
-        // Get all unique guests from the podcast
-        const allEpisodes = await db
-          .select({
-            guests: resources.guests,
-            title: resources.title,
-            episodeNumber: resources.episodeNumber
-          })
-          .from(resources)
-          .where(sql`${resources.guests} IS NOT NULL`);
-        
-        // Extract and process all guests
-        const guestMap = new Map();
-        
-        for (const episode of allEpisodes) {
-          try {
-            // Parse guest JSON if it's a string
-            const guestList = typeof episode.guests === 'string' 
-              ? JSON.parse(episode.guests) 
-              : episode.guests;
-              
-            if (Array.isArray(guestList)) {
-              for (const guest of guestList) {
-                if (guest && typeof guest === 'string' && guest.trim() !== '') {
-                  if (!guestMap.has(guest)) {
-                    guestMap.set(guest, []);
-                  }
-                  guestMap.get(guest).push({
-                    episodeNumber: episode.episodeNumber,
-                    title: episode.title
-                  });
-                }
-              }
-            }
-          } catch (e) {
-            console.error(`Error parsing guests for episode ${episode.episodeNumber}:`, e);
-          }
-        }
-        
-        // Convert to array of guest objects with appearances
-        const uniqueGuests = Array.from(guestMap.entries()).map(([name, episodes]) => ({
-          name,
-          episodeCount: episodes.length,
-          episodes
-        }));
+        // Get all unique guests from the podcast, with merged spellings counted once
+        const uniqueGuests = await listGuests(params?.podcastId);
         
         return {
           guests: uniqueGuests,
@@ -130,24 +91,13 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
         };
           
       case 'episode_content':
-        // Get all content chunks for a specific episode
+      case 'episode_chapters':
+        // Get all content chunks or the chapters for a specific episode
         let episodeId;
         
         // First, find the episode by guest name, episode number, or title
         if (params?.guestName) {
-          const episodes = await db
-            .select({
-              id: resources.id,
-              title: resources.title,
-              episodeNumber: resources.episodeNumber,
-              guests: resources.guests
-            })
-            .from(resources)
-            .where(sql`${resources.guests} LIKE ${'%' + params.guestName + '%'}`);
-          
-          if (episodes.length > 0) {
-            episodeId = episodes[0].id;
-          }
+          episodeId = await findLatestEpisodeWithGuest(params.guestName, params.podcastId);
         } else if (params?.episodeNumber) {
           const episodes = await db
             .select({
@@ -156,20 +106,22 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
               episodeNumber: resources.episodeNumber
             })
             .from(resources)
-            .where(sql`${resources.episodeNumber} = ${params.episodeNumber}`);
+            .where(and(sql`${resources.episodeNumber} = ${params.episodeNumber}`, inPodcast(params.podcastId)));
           
           if (episodes.length > 0) {
             episodeId = episodes[0].id;
           }
         } else if (params?.episodeTitle) {
-          const episodes = await db
+          // Best full-text match on title and summary, or failing that a title containing the text
+          const [bestMatch] = await searchEpisodesByKeyword(params.episodeTitle, { podcastId: params.podcastId, limit: 1 });
+          const episodes = bestMatch ? [bestMatch] : await db
             .select({
               id: resources.id,
               title: resources.title,
               episodeNumber: resources.episodeNumber
             })
             .from(resources)
-            .where(sql`${resources.title} ILIKE ${'%' + params.episodeTitle + '%'}`);
+            .where(and(sql`${resources.title} ILIKE ${'%' + params.episodeTitle + '%'}`, inPodcast(params.podcastId)));
           
           if (episodes.length > 0) {
             episodeId = episodes[0].id;
@@ -189,7 +141,7 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
         
         // Get episode details
         const episodeDetails = await db
-          .select()
+          .select(resourceColumns)
           .from(resources)
           .where(sql`${resources.id} = ${episodeId}`)
           .limit(1);
@@ -201,14 +153,25 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
           };
         }
         
-        // Get all content chunks for this episode
-        const contentChunks = await db
-          .select({
-            id: embeddings.id,
-            content: embeddings.content
-          })
-          .from(embeddings)
-          .where(sql`${embeddings.resourceId} = ${episodeId}`);
+        if (queryType === 'episode_chapters') {
+          const episodeChapters = await getChapters(episodeId);
+          return {
+            success: true,
+            episode: {
+              id: episodeDetails[0].id,
+              title: episodeDetails[0].title,
+              episodeNumber: episodeDetails[0].episodeNumber,
+              link: episodeDetails[0].link
+            },
+            chapters: episodeChapters.map(({ position, title, topic, blurb, startSeconds, timestamp }) => ({
+              position, title, topic, blurb, startSeconds, timestamp
+            })),
+            totalChapters: episodeChapters.length
+          };
+        }
+        
+        // Get all content chunks for this episode, in transcript order
+        const contentChunks = await getEpisodeChunks(episodeId);
           
         return {
           success: true,
@@ -227,19 +190,22 @@ export async function executeSafeQuery(queryType: 'list_resources' | 'resource_d
 }
 
 /**
- * Get episode statistics from the database
+ * Get episode statistics from the database, optionally for a single show
  */
-export async function getResourceStats() {
+export async function getResourceStats(podcastId?: string) {
   try {
     // Get total episodes count
     const episodeCountResult = await db
       .select({ count: sql<number>`count(*)` })
-      .from(resources);
+      .from(resources)
+      .where(inPodcast(podcastId));
     
     // Get total embeddings count
     const embeddingCountResult = await db
       .select({ count: sql<number>`count(*)` })
-      .from(embeddings);
+      .from(embeddings)
+      .innerJoin(resources, eq(embeddings.resourceId, resources.id))
+      .where(inPodcast(podcastId));
     
     // Get most recent episode
     const latestEpisode = await db
@@ -249,6 +215,7 @@ export async function getResourceStats() {
         pubDate: resources.pubDate
       })
       .from(resources)
+      .where(inPodcast(podcastId))
       .orderBy(sql`${resources.pubDate} DESC`)
       .limit(1);
     
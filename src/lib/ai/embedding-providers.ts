@@ -0,0 +1,162 @@
+import { embed, embedMany, EmbeddingModel } from 'ai';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import {
+  EMBEDDING_BATCH_SIZE,
+  EMBEDDING_DIMENSIONS,
+  EMBEDDING_PROVIDER,
+  LOCAL_EMBEDDING_BASE_URL,
+  LOCAL_EMBEDDING_DIMENSIONS,
+  LOCAL_EMBEDDING_MODEL,
+} from './config';
+import { recordUsage, UsageContext, withBudgetReservation } from './usage';
+import { callProvider } from './provider-client';
+
+// Types
+export interface EmbeddingProvider {
+  name: string;
+  // Model name recorded next to every stored vector
+  modelName: string;
+  // Size of the model's vectors, before padding to the column size
+  dimensions: number;
+  // usage tags the recorded token count with the step and episode it was spent on
+  embed(value: string, usage: UsageContext): Promise<number[]>;
+  embedMany(values: string[], usage: UsageContext): Promise<number[][]>;
+}
+
+interface EmbeddingProviderDefinition {
+  modelName: string;
+  // At most EMBEDDING_DIMENSIONS, the size of the pgvector columns; larger providers are rejected when created
+  dimensions: number;
+  requiresApiKey: boolean;
+  createModel(): EmbeddingModel<string>;
+}
+
+// Registry of supported embedding providers
+const EMBEDDING_PROVIDERS: Record<string, EmbeddingProviderDefinition> = {
+  'openai-small': {
+    modelName: 'text-embedding-3-small',
+    dimensions: EMBEDDING_DIMENSIONS,
+    requiresApiKey: true,
+    createModel: () =>
+      openai.embedding('text-embedding-3-small', { dimensions: EMBEDDING_DIMENSIONS }),
+  },
+  'openai-large': {
+    modelName: 'text-embedding-3-large',
+    dimensions: EMBEDDING_DIMENSIONS,
+    requiresApiKey: true,
+    // Shortened to the column size; pgvector indexes can't hold the native 3072 dimensions
+    createModel: () =>
+      openai.embedding('text-embedding-3-large', { dimensions: EMBEDDING_DIMENSIONS }),
+  },
+  local: {
+    modelName: LOCAL_EMBEDDING_MODEL,
+    dimensions: LOCAL_EMBEDDING_DIMENSIONS,
+    requiresApiKey: false,
+    createModel: () =>
+      createOpenAI({
+        baseURL: LOCAL_EMBEDDING_BASE_URL,
+        apiKey: process.env.LOCAL_EMBEDDING_API_KEY || 'local',
+      }).embedding(LOCAL_EMBEDDING_MODEL),
+  },
+};
+
+// About four characters per token, for rate limiting
+const estimateTokens = (values: string[]) =>
+  Math.ceil(values.reduce((sum, value) => sum + value.length, 0) / 4);
+
+/**
+ * Make sure a vector has the provider's size, then zero-pad it to the pgvector
+ * columns before it is stored or queried. Padding doesn't change cosine similarity.
+ */
+function fitToColumn(name: string, dimensions: number, vector: number[]): number[] {
+  if (vector.length !== dimensions) {
+    throw new Error(
+      `Embedding provider "${name}" returned ${vector.length} dimensions, expected ${dimensions}`
+    );
+  }
+  return vector.length < EMBEDDING_DIMENSIONS
+    ? [...vector, ...new Array(EMBEDDING_DIMENSIONS - vector.length).fill(0)]
+    : vector;
+}
+
+function createEmbeddingProvider(name: string, definition: EmbeddingProviderDefinition): EmbeddingProvider {
+  if (definition.requiresApiKey && !process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is required');
+  }
+  if (definition.dimensions > EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedding provider "${name}" has ${definition.dimensions} dimensions, more than the ${EMBEDDING_DIMENSIONS} the database columns hold`
+    );
+  }
+
+  const model = definition.createModel();
+
+  return {
+    name,
+    modelName: definition.modelName,
+    dimensions: definition.dimensions,
+    async embed(value, usage) {
+      const estimatedTokens = estimateTokens([value]);
+      return withBudgetReservation(definition.modelName, { inputTokens: estimatedTokens }, async () => {
+        // Retries go through callProvider rather than the AI SDK
+        const { embedding, usage: { tokens } } = await callProvider(
+          `${definition.modelName} embedding`,
+          () => embed({ model, value, maxRetries: 0 }),
+          { estimatedTokens }
+        );
+        await recordUsage({ ...usage, kind: 'embedding', model: definition.modelName, inputTokens: tokens });
+        return fitToColumn(name, definition.dimensions, embedding);
+      });
+    },
+    async embedMany(values, usage) {
+      // Sent in batches so a failure only retries its own batch
+      const vectors: number[][] = [];
+      for (let i = 0; i < values.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = values.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const estimatedTokens = estimateTokens(batch);
+        const embeddings = await withBudgetReservation(definition.modelName, { inputTokens: estimatedTokens }, async () => {
+          const { embeddings, usage: { tokens } } = await callProvider(
+            `${definition.modelName} embeddings ${i + 1}-${i + batch.length} of ${values.length}`,
+            () => embedMany({ model, values: batch, maxRetries: 0 }),
+            { estimatedTokens }
+          );
+          await recordUsage({ ...usage, kind: 'embedding', model: definition.modelName, inputTokens: tokens });
+          return embeddings;
+        });
+        vectors.push(...embeddings.map((embedding) => fitToColumn(name, definition.dimensions, embedding)));
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Get the embedding provider used for new vectors
+ * @param name Provider name (defaults to EMBEDDING_PROVIDER)
+ * @returns Embedding provider
+ */
+export function getEmbeddingProvider(name: string = EMBEDDING_PROVIDER): EmbeddingProvider {
+  const definition = EMBEDDING_PROVIDERS[name];
+  if (!definition) {
+    throw new Error(
+      `Unknown embedding provider "${name}". Expected one of: ${Object.keys(EMBEDDING_PROVIDERS).join(', ')}`
+    );
+  }
+  return createEmbeddingProvider(name, definition);
+}
+
+/**
+ * Get the provider that produced vectors stored with the given model name,
+ * so queries are embedded with the same model as the data they're compared to
+ * @param modelName Model name recorded with the stored vectors
+ * @returns Embedding provider
+ */
+export function getEmbeddingProviderForModel(modelName: string): EmbeddingProvider {
+  const entry = Object.entries(EMBEDDING_PROVIDERS).find(
+    ([, definition]) => definition.modelName === modelName
+  );
+  if (!entry) {
+    throw new Error(`No embedding provider is registered for model "${modelName}"`);
+  }
+  return createEmbeddingProvider(entry[0], entry[1]);
+}
@@ -1,12 +1,13 @@
-import { embed, embedMany } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { db } from '../db/index.js';
 import { embeddings } from '../db/schema/embeddings.js';
 import { resources } from '../db/schema/resources.js';
-import { cosineDistance, desc, gt, sql, eq } from 'drizzle-orm';
-
-// Initialize embedding model
-const embeddingModel = openai.embedding('text-embedding-3-small');
+import { podcasts } from '../db/schema/podcasts.js';
+import { cosineDistance, desc, gt, sql, eq, and, isNotNull } from 'drizzle-orm';
+import { formatTimestamp } from './transcript-timing';
+import { getEmbeddingProvider, getEmbeddingProviderForModel } from './embedding-providers';
+import { UsageContext } from './usage';
+import { expandToNeighborWindows } from './episode-chunks';
+import { NEIGHBOR_WINDOW_TOKENS } from './config';
 
 // Function to break text into chunks
 export const generateChunks = (input: string): string[] => {
@@ -19,103 +20,205 @@ export const generateChunks = (input: string): string[] => {
 };
 
 // Function to generate embeddings for a given text
-export async function generateEmbeddings(text: string) {
+export async function generateEmbeddings(text: string, usage: UsageContext = { step: 'embed' }) {
   // Break the text into smaller chunks
   const chunks = generateChunks(text);
   
-  // Generate embeddings for each chunk using AI SDK
-  const { embeddings } = await embedMany({
-    model: embeddingModel,
-    values: chunks,
-  });
+  // Generate embeddings for each chunk with the configured provider
+  const embeddingProvider = getEmbeddingProvider();
+  const embeddings = await embeddingProvider.embedMany(chunks, usage);
   
   return chunks.map((chunk, index) => ({
     content: chunk,
     embedding: embeddings[index],
+    embeddingModel: embeddingProvider.modelName,
+    embeddingDimensions: embeddingProvider.dimensions,
   }));
 }
 
-// Function to generate a single embedding for a query
-export async function generateQueryEmbedding(query: string) {
+// Function to generate a single embedding for a query; usage tags the recorded cost
+export async function generateQueryEmbedding(query: string, modelName?: string, usage: UsageContext = { step: 'search' }) {
   const input = query.replaceAll('\\n', ' ');
   
-  const { embedding } = await embed({
-    model: embeddingModel,
-    value: input,
+  // Embed with the model the stored vectors were created with, when known
+  const embeddingProvider = modelName
+    ? getEmbeddingProviderForModel(modelName)
+    : getEmbeddingProvider();
+  
+  return embeddingProvider.embed(input, usage);
+}
+
+// Function to merge per-model result lists by rank. Similarities of different
+// models aren't comparable, so the best match of each model comes first, then the
+// second of each, and so on; ties go to the earlier list.
+function mergeByRank<T>(rankings: T[][]): T[] {
+  return rankings
+    .flatMap((matches, listIndex) => matches.map((match, rank) => ({ match, rank, listIndex })))
+    .sort((a, b) => a.rank - b.rank || a.listIndex - b.listIndex)
+    .map(({ match }) => match);
+}
+
+// Function to put the configured provider's model first, so it wins ties when merging by rank
+function activeModelFirst(models: string[]): string[] {
+  const activeModel = getEmbeddingProvider().modelName;
+  return [...models].sort((a, b) => Number(b === activeModel) - Number(a === activeModel));
+}
+
+// How long a list of stored embedding models is reused before it is read again.
+// The lists only change when episodes are embedded with another model, and
+// reading them scans every stored vector.
+const STORED_MODELS_TTL_MS = 5 * 60 * 1000;
+
+const storedModelsCache = new Map<string, { models: Promise<string[]>; loadedAt: number }>();
+
+// Function to reuse a list of stored models for STORED_MODELS_TTL_MS within this process
+function cachedStoredModels(key: string, load: () => Promise<string[]>): Promise<string[]> {
+  const cached = storedModelsCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < STORED_MODELS_TTL_MS) {
+    return cached.models;
+  }
+
+  const models = load();
+  storedModelsCache.set(key, { models, loadedAt: Date.now() });
+  // A failed read is tried again by the next search
+  models.catch(() => storedModelsCache.delete(key));
+  return models;
+}
+
+// Function to list the models that produced the stored chunk embeddings
+async function getStoredEmbeddingModels(): Promise<string[]> {
+  const models = await cachedStoredModels('chunks', async () => {
+    const rows = await db
+      .selectDistinct({ model: embeddings.embeddingModel })
+      .from(embeddings);
+    return rows.map(row => row.model);
+  });
+  
+  return activeModelFirst(models);
+}
+
+// Function to list the models that produced the stored summary embeddings
+async function getStoredSummaryEmbeddingModels(): Promise<string[]> {
+  const models = await cachedStoredModels('summaries', async () => {
+    const rows = await db
+      .selectDistinct({ model: resources.summaryEmbeddingModel })
+      .from(resources)
+      .where(isNotNull(resources.summaryEmbeddingModel));
+    return rows.map(row => row.model).filter((model): model is string => Boolean(model));
   });
   
-  return embedding;
+  return activeModelFirst(models);
 }
 
-// Function to find relevant content based on a user query
-export async function findRelevantContent(userQuery: string, matchThreshold: number = 0.1, matchCount: number = 4) {
+// Function to find the chunks most similar to a query, best first, optionally within one show.
+// Intros, ad reads and outros are left out unless includeNonContent is set.
+export async function findSimilarChunks(userQuery: string, matchThreshold: number = 0.1, matchCount: number = 4, podcastId?: string, includeNonContent: boolean = false, usage?: UsageContext) {
+  // Search the vectors of each stored model with a query embedded by that same model
+  const matchesByModel = await Promise.all(
+    (await getStoredEmbeddingModels()).map(async (model) => {
+      const queryEmbedding = await generateQueryEmbedding(userQuery, model, usage);
+      
+      // Calculate similarity using cosine distance
+      const similarity = sql<number>`1 - (${cosineDistance(
+        embeddings.embedding,
+        queryEmbedding,
+      )})`;
+      
+      // Find similar content using Drizzle ORM with join to resources table
+      return db
+        .select({ 
+          id: embeddings.id,
+          content: embeddings.content,
+          resourceId: embeddings.resourceId,
+          chunkIndex: embeddings.chunkIndex,
+          startSeconds: embeddings.startSeconds,
+          endSeconds: embeddings.endSeconds,
+          segmentType: embeddings.segmentType,
+          similarity,
+          // Include resource information for citation
+          resourceTitle: resources.title,
+          episodeNumber: resources.episodeNumber,
+          guests: resources.guests,
+          link: resources.link,
+          podcastName: podcasts.name
+        })
+        .from(embeddings)
+        .leftJoin(resources, eq(embeddings.resourceId, resources.id))
+        .leftJoin(podcasts, eq(resources.podcastId, podcasts.id))
+        .where(and(
+          gt(similarity, matchThreshold),
+          eq(embeddings.embeddingModel, model),
+          podcastId ? eq(resources.podcastId, podcastId) : undefined,
+          includeNonContent ? undefined : eq(embeddings.segmentType, 'content')
+        ))
+        .orderBy(desc(similarity))
+        .limit(matchCount);
+    })
+  );
+  
+  return mergeByRank(matchesByModel).slice(0, matchCount);
+}
+
+// Function to find relevant content based on a user query, optionally within one show.
+// Each match is widened with its neighboring chunks up to windowTokens; overlapping windows are merged.
+export async function findRelevantContent(userQuery: string, matchThreshold: number = 0.1, matchCount: number = 4, podcastId?: string, includeNonContent: boolean = false, usage?: UsageContext, windowTokens: number = NEIGHBOR_WINDOW_TOKENS) {
   try {
-    // Generate embedding for the user query
-    const queryEmbedding = await generateQueryEmbedding(userQuery);
-    
-    // Calculate similarity using cosine distance
-    const similarity = sql<number>`1 - (${cosineDistance(
-      embeddings.embedding,
-      queryEmbedding,
-    )})`;
-    
-    // Find similar content using Drizzle ORM with join to resources table
-    const matches = await db
-      .select({ 
-        id: embeddings.id,
-        content: embeddings.content,
-        resourceId: embeddings.resourceId,
-        similarity,
-        // Include resource information for citation
-        resourceTitle: resources.title,
-        episodeNumber: resources.episodeNumber,
-        guests: resources.guests,
-        link: resources.link
-      })
-      .from(embeddings)
-      .leftJoin(resources, eq(embeddings.resourceId, resources.id))
-      .where(gt(similarity, matchThreshold))
-      .orderBy(desc(similarity))
-      .limit(matchCount);
+    const matches = await findSimilarChunks(userQuery, matchThreshold, matchCount, podcastId, includeNonContent, usage);
     
     if (!matches || matches.length === 0) {
       return { content: "No relevant content found" };
     }
     
-    // Return the matches with resource information
-    return matches;
+    // Match on small chunks, answer with the passage around them
+    const windows = await expandToNeighborWindows(matches, windowTokens, includeNonContent);
+    
+    // Return the windows with resource information and a citable timestamp
+    return windows.map(window => ({
+      ...window,
+      timestamp: window.startSeconds !== null ? formatTimestamp(window.startSeconds) : null
+    }));
   } catch (error) {
     console.error('Error finding relevant content:', error);
     return { content: "Error retrieving content" };
   }
 }
 
-// Function to find podcast episodes by summary similarity
-export async function findEpisodesBySummary(query: string, matchThreshold: number = 0.1, matchCount: number = 5) {
+// Function to find podcast episodes by summary similarity, optionally within one show
+export async function findEpisodesBySummary(query: string, matchThreshold: number = 0.1, matchCount: number = 5, podcastId?: string, usage?: UsageContext) {
   try {
-    // Generate embedding for the query
-    const queryEmbedding = await generateQueryEmbedding(query);
-    
-    // Calculate similarity using cosine distance against summary embeddings
-    const similarity = sql<number>`1 - (${cosineDistance(
-      resources.summaryEmbedding,
-      queryEmbedding,
-    )})`;
-    
-    // Find similar episodes using Drizzle ORM
-    const matches = await db
-      .select({ 
-        id: resources.id,
-        title: resources.title,
-        episodeNumber: resources.episodeNumber,
-        summary: resources.summary,
-        guests: resources.guests,
-        similarity 
+    // Search the summaries of each stored model with a query embedded by that same model
+    const matchesByModel = await Promise.all(
+      (await getStoredSummaryEmbeddingModels()).map(async (model) => {
+        const queryEmbedding = await generateQueryEmbedding(query, model, usage);
+        
+        // Calculate similarity using cosine distance against summary embeddings
+        const similarity = sql<number>`1 - (${cosineDistance(
+          resources.summaryEmbedding,
+          queryEmbedding,
+        )})`;
+        
+        // Find similar episodes using Drizzle ORM
+        return db
+          .select({ 
+            id: resources.id,
+            title: resources.title,
+            episodeNumber: resources.episodeNumber,
+            summary: resources.summary,
+            guests: resources.guests,
+            similarity 
+          })
+          .from(resources)
+          .where(and(
+            gt(similarity, matchThreshold),
+            eq(resources.summaryEmbeddingModel, model),
+            podcastId ? eq(resources.podcastId, podcastId) : undefined
+          ))
+          .orderBy(desc(similarity))
+          .limit(matchCount);
       })
-      .from(resources)
-      .where(gt(similarity, matchThreshold))
-      .orderBy(desc(similarity))
-      .limit(matchCount);
+    );
+    
+    const matches = mergeByRank(matchesByModel).slice(0, matchCount);
     
     if (!matches || matches.length === 0) {
       return { episodes: [] };
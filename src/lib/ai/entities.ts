@@ -0,0 +1,179 @@
+import { and, asc, desc, eq, ilike } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db/index";
+import { embeddings } from "../db/schema/embeddings";
+import { entities } from "../db/schema/entities";
+import { resources } from "../db/schema/resources";
+import { ENTITY_EXTRACTION_BATCH_SIZE, ENTITY_EXTRACTION_MODEL } from "./config";
+import { PodcastEpisode } from "./podcast-feed";
+import { formatTimestamp } from "./transcript-timing";
+import { markStageComplete, markStageFailed } from "./ingestion-state";
+import { createEntityExtractionPrompt } from "../prompts/entity-extraction";
+import { createChatCompletion, shouldAbortRun } from "./provider-client";
+import { countForRun } from "./ingest-runs";
+import { getEpisodeChunks } from "./episode-chunks";
+
+// Kinds of things extracted from transcripts
+export const ENTITY_TYPES = ["race", "shoe", "gear", "nutrition", "book", "coach"] as const;
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+export interface EntitySearch {
+  type?: EntityType;
+  // Matched anywhere in the canonical name, case-insensitively
+  name?: string;
+  mentionedBy?: string;
+  recommendedOnly?: boolean;
+  podcastId?: string;
+  limit?: number;
+}
+
+function cleanName(value: string | null | undefined): string | null {
+  const name = value?.replace(/\s+/g, " ").trim();
+  return name || null;
+}
+
+// One mention in the model's response. Mentions without a chunk number, a known
+// type or a name are dropped; the optional fields fall back to empty values.
+const extractedEntitySchema = z.object({
+  chunk: z.number().int(),
+  type: z.enum(ENTITY_TYPES),
+  name: z.string(),
+  mentionedBy: z.string().nullish().catch(null),
+  recommended: z.boolean().catch(false),
+  context: z.string().nullish().catch(null),
+});
+
+const entitiesResponseSchema = z.object({
+  entities: z.array(z.unknown()).catch([]),
+});
+
+/**
+ * Extracts race, gear, nutrition, book and coach mentions from each episode's
+ * content chunks and stores them in the entities table
+ * @param episodes Array of podcast episodes with stored chunks
+ * @param hosts Names of the show's hosts, so mentions can be attributed
+ * @returns The episodes that were processed
+ */
+export async function extractEntities(
+  episodes: PodcastEpisode[],
+  hosts: string[] = []
+): Promise<PodcastEpisode[]> {
+  for (const episode of episodes) {
+    const resourceId = episode.resourceId;
+    if (!resourceId) {
+      console.warn(`No resource for episode: ${episode.episodeNumber}, skipping entity extraction.`);
+      continue;
+    }
+
+    console.log(`Extracting entities for episode: ${episode.episodeNumber}`);
+
+    try {
+      // Ad reads are skipped so sponsors don't show up as recommendations
+      const chunks = await getEpisodeChunks(resourceId, false);
+
+      const mentions: (typeof entities.$inferInsert)[] = [];
+
+      for (let i = 0; i < chunks.length; i += ENTITY_EXTRACTION_BATCH_SIZE) {
+        const batch = chunks
+          .slice(i, i + ENTITY_EXTRACTION_BATCH_SIZE)
+          .map((chunk, j) => ({ ...chunk, number: i + j }));
+
+        const response = await createChatCompletion(`Entity extraction for episode ${episode.episodeNumber}`, {
+          model: ENTITY_EXTRACTION_MODEL,
+          messages: [
+            {
+              role: "system",
+              content: "You are a helpful assistant that catalogues what is mentioned on a running podcast."
+            },
+            {
+              role: "user",
+              content: createEntityExtractionPrompt(episode.title, batch, hosts)
+            }
+          ],
+          response_format: { type: "json_object" }
+        }, { step: "extract", resourceId });
+
+        // Safely handle null content
+        const result = entitiesResponseSchema.safeParse(JSON.parse(response.choices[0].message.content || "{}"));
+        const found = (result.success ? result.data.entities : []).flatMap((entity) => {
+          const parsed = extractedEntitySchema.safeParse(entity);
+          return parsed.success ? [parsed.data] : [];
+        });
+
+        for (const entity of found) {
+          const chunk = batch.find((candidate) => candidate.number === entity.chunk);
+          const name = cleanName(entity.name);
+          if (!chunk || !name) {
+            continue;
+          }
+
+          mentions.push({
+            resourceId,
+            embeddingId: chunk.id,
+            type: entity.type,
+            name,
+            mentionedBy: cleanName(entity.mentionedBy),
+            recommended: entity.recommended,
+            context: cleanName(entity.context),
+          });
+        }
+      }
+
+      // Replace mentions from a previous run so reruns don't duplicate them
+      await db.transaction(async (tx) => {
+        await tx.delete(entities).where(eq(entities.resourceId, resourceId));
+        if (mentions.length > 0) {
+          await tx.insert(entities).values(mentions);
+        }
+      });
+
+      countForRun("entitiesStored", mentions.length);
+      await markStageComplete(resourceId, "extract");
+      console.log(`Stored ${mentions.length} entity mentions for episode ${episode.episodeNumber}`);
+    } catch (error) {
+      if (shouldAbortRun(error)) throw error;
+      console.error(`Error extracting entities for episode ${episode.episodeNumber}:`, error);
+      await markStageFailed(resourceId, "extract", error);
+    }
+  }
+
+  return episodes;
+}
+
+/**
+ * Look up stored mentions, newest episodes first
+ * @param search Filters on type, name, speaker, recommendations and show
+ * @returns Mentions with their episode, the chunk they came from and a citable timestamp
+ */
+export async function searchEntities(search: EntitySearch) {
+  const mentions = await db
+    .select({
+      type: entities.type,
+      name: entities.name,
+      mentionedBy: entities.mentionedBy,
+      recommended: entities.recommended,
+      context: entities.context,
+      episodeNumber: resources.episodeNumber,
+      resourceTitle: resources.title,
+      link: resources.link,
+      startSeconds: embeddings.startSeconds,
+      content: embeddings.content,
+    })
+    .from(entities)
+    .innerJoin(resources, eq(entities.resourceId, resources.id))
+    .innerJoin(embeddings, eq(entities.embeddingId, embeddings.id))
+    .where(and(
+      search.type ? eq(entities.type, search.type) : undefined,
+      search.name ? ilike(entities.name, `%${search.name}%`) : undefined,
+      search.mentionedBy ? ilike(entities.mentionedBy, `%${search.mentionedBy}%`) : undefined,
+      search.recommendedOnly ? eq(entities.recommended, true) : undefined,
+      search.podcastId ? eq(resources.podcastId, search.podcastId) : undefined
+    ))
+    .orderBy(desc(resources.pubDate), asc(embeddings.chunkIndex))
+    .limit(search.limit ?? 50);
+
+  return mentions.map((mention) => ({
+    ...mention,
+    timestamp: mention.startSeconds !== null ? formatTimestamp(mention.startSeconds) : null,
+  }));
+}
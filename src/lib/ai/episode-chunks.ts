@@ -0,0 +1,210 @@
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db/index";
+import { embeddings } from "../db/schema/embeddings";
+import { stitchOverlappingText } from "./transcript-stitching";
+
+// Types
+export type StoredChunk = Awaited<ReturnType<typeof getEpisodeChunks>>[number];
+
+// A search hit that can be expanded with its neighboring chunks
+export interface ChunkHit {
+  resourceId: string | null;
+  chunkIndex: number;
+  content: string;
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+export type NeighborWindow<T extends ChunkHit> = T & {
+  // The chunk that matched; content holds the whole window
+  matchedContent: string;
+  firstChunkIndex: number;
+  lastChunkIndex: number;
+  tokenCount: number;
+};
+
+// Chunk positions in an episode's chunk list covered by a window, inclusive.
+// order is the position of the hit in the search results.
+interface WindowRange<T> {
+  hit: T;
+  order: number;
+  first: number;
+  last: number;
+}
+
+/**
+ * Load an episode's chunks in transcript order
+ * @param resourceId Episode to load
+ * @param includeNonContent Whether to include intros, ad reads and outros
+ * @returns Chunks ordered by chunk index
+ */
+export async function getEpisodeChunks(resourceId: string, includeNonContent = true) {
+  return db
+    .select({
+      id: embeddings.id,
+      content: embeddings.content,
+      context: embeddings.context,
+      chunkIndex: embeddings.chunkIndex,
+      tokenCount: embeddings.tokenCount,
+      charStart: embeddings.charStart,
+      charEnd: embeddings.charEnd,
+      startSeconds: embeddings.startSeconds,
+      endSeconds: embeddings.endSeconds,
+      segmentType: embeddings.segmentType,
+    })
+    .from(embeddings)
+    .where(and(
+      eq(embeddings.resourceId, resourceId),
+      includeNonContent ? undefined : eq(embeddings.segmentType, "content")
+    ))
+    .orderBy(asc(embeddings.chunkIndex));
+}
+
+/**
+ * Join ordered chunks back into one transcript, keeping the text shared by
+ * overlapping chunks once. Chunks with character offsets are placed by them;
+ * older chunks without offsets are joined by matching the repeated words.
+ * Separator punctuation the splitter dropped between chunks comes back as a space.
+ * @param chunks Chunks in chunk index order
+ * @returns Transcript text
+ */
+export function rebuildTranscript(
+  chunks: Pick<StoredChunk, "content" | "charStart" | "charEnd">[]
+): string {
+  let transcript = "";
+  let coveredTo = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.charStart === null || chunk.charEnd === null) {
+      transcript = stitchOverlappingText(transcript, chunk.content);
+      continue;
+    }
+
+    if (chunk.charEnd <= coveredTo) {
+      continue;
+    }
+    if (chunk.charStart >= coveredTo) {
+      transcript = transcript ? `${transcript} ${chunk.content}` : chunk.content;
+    } else {
+      transcript += chunk.content.slice(coveredTo - chunk.charStart);
+    }
+    coveredTo = chunk.charEnd;
+  }
+
+  return transcript;
+}
+
+/**
+ * Rebuild an episode's transcript from its stored chunks
+ * @param resourceId Episode to rebuild
+ * @returns Transcript text, empty when the episode has no chunks
+ */
+export async function getTranscriptFromChunks(resourceId: string): Promise<string> {
+  return rebuildTranscript(await getEpisodeChunks(resourceId));
+}
+
+// About four characters per token, for chunks stored before token counts were kept
+const getChunkTokens = (chunk: Pick<StoredChunk, "content" | "tokenCount">) =>
+  chunk.tokenCount ?? Math.ceil(chunk.content.length / 4);
+
+/**
+ * Grow a window around one chunk, taking the chunk before and then the chunk
+ * after in turn while they fit the token budget. Non-content neighbors end
+ * the window on that side unless they are searched too.
+ */
+function growWindow(
+  chunks: StoredChunk[],
+  position: number,
+  tokenBudget: number,
+  includeNonContent: boolean
+): { first: number; last: number } {
+  let first = position;
+  let last = position;
+  let tokens = getChunkTokens(chunks[position]);
+  const canTake = (candidate: number) =>
+    candidate >= 0 &&
+    candidate < chunks.length &&
+    (includeNonContent || chunks[candidate].segmentType === "content") &&
+    tokens + getChunkTokens(chunks[candidate]) <= tokenBudget;
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (canTake(first - 1)) {
+      first--;
+      tokens += getChunkTokens(chunks[first]);
+      grew = true;
+    }
+    if (canTake(last + 1)) {
+      last++;
+      tokens += getChunkTokens(chunks[last]);
+      grew = true;
+    }
+  }
+  return { first, last };
+}
+
+/**
+ * Expand search hits into windows of adjacent chunks from the same episode,
+ * so an answer that runs past the matched chunk comes back whole. Windows that
+ * overlap or touch are merged and keep the best-ranked hit.
+ * @param hits Matched chunks, best first
+ * @param tokenBudget Tokens per window before merging, counting each chunk in full
+ * @param includeNonContent Whether windows may take in intros, ad reads and outros
+ * @returns One window per hit or merged group of hits, best first
+ */
+export async function expandToNeighborWindows<T extends ChunkHit>(
+  hits: T[],
+  tokenBudget: number,
+  includeNonContent = false
+): Promise<NeighborWindow<T>[]> {
+  const hitsByEpisode = new Map<string, { hit: T; order: number }[]>();
+  hits.forEach((hit, order) => {
+    if (!hit.resourceId) return;
+    hitsByEpisode.set(hit.resourceId, [...(hitsByEpisode.get(hit.resourceId) ?? []), { hit, order }]);
+  });
+
+  const windows: { window: NeighborWindow<T>; order: number }[] = [];
+  for (const [resourceId, episodeHits] of hitsByEpisode) {
+    const chunks = await getEpisodeChunks(resourceId);
+
+    const ranges: WindowRange<T>[] = [];
+    for (const { hit, order } of episodeHits) {
+      const position = chunks.findIndex((chunk) => chunk.chunkIndex === hit.chunkIndex);
+      if (position === -1) continue;
+      ranges.push({ hit, order, ...growWindow(chunks, position, tokenBudget, includeNonContent) });
+    }
+
+    // Merge in transcript order; a merged window is represented by its best hit
+    ranges.sort((a, b) => a.first - b.first);
+    const merged: WindowRange<T>[] = [];
+    for (const range of ranges) {
+      const previous = merged[merged.length - 1];
+      if (previous && range.first <= previous.last + 1) {
+        previous.last = Math.max(previous.last, range.last);
+        if (range.order < previous.order) {
+          previous.hit = range.hit;
+          previous.order = range.order;
+        }
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    for (const { hit, order, first, last } of merged) {
+      const windowChunks = chunks.slice(first, last + 1);
+      windows.push({ order, window: {
+        ...hit,
+        content: rebuildTranscript(windowChunks),
+        matchedContent: hit.content,
+        firstChunkIndex: windowChunks[0].chunkIndex,
+        lastChunkIndex: windowChunks[windowChunks.length - 1].chunkIndex,
+        startSeconds: windowChunks[0].startSeconds ?? hit.startSeconds,
+        endSeconds: windowChunks[windowChunks.length - 1].endSeconds ?? hit.endSeconds,
+        tokenCount: windowChunks.reduce((sum, chunk) => sum + getChunkTokens(chunk), 0),
+      } });
+    }
+  }
+
+  return windows.sort((a, b) => a.order - b.order).map(({ window }) => window);
+}
@@ -0,0 +1,59 @@
+import fs from "fs";
+import { basename, extname, join } from "path";
+import { inArray } from "drizzle-orm";
+import { db } from "../db/index";
+import { resources } from "../db/schema/resources";
+import { CHUNKS_DIR } from "./config";
+import { PodcastEpisode, getAudioFilePath } from "./podcast-feed";
+import { getTimedTranscriptPath, getTranscriptPath } from "./processors";
+
+/**
+ * List the local files the pipeline created for an episode
+ */
+async function getEpisodeFiles(episode: PodcastEpisode): Promise<string[]> {
+  const audioPath = getAudioFilePath(episode);
+  const chunkPrefix = `${basename(audioPath, extname(audioPath))}_chunk`;
+  const chunkFiles = await fs.promises.readdir(CHUNKS_DIR).catch(() => [] as string[]);
+
+  return [
+    audioPath,
+    `${audioPath}.part`,
+    getTranscriptPath(episode),
+    getTimedTranscriptPath(episode),
+    ...chunkFiles.filter((file) => file.startsWith(chunkPrefix)).map((file) => join(CHUNKS_DIR, file)),
+  ];
+}
+
+/**
+ * Remove episodes from the database along with everything derived from them
+ * (chunks, chapters, entities, guest links and ingestion state) and delete
+ * their local audio and transcript files. The next sync sees them as new.
+ * @param episodes Episodes to purge
+ * @param dryRun Only list what would be removed
+ * @returns Number of episodes purged
+ */
+export async function purgeEpisodes(episodes: PodcastEpisode[], dryRun = false): Promise<number> {
+  for (const episode of episodes) {
+    const files = [];
+    for (const file of await getEpisodeFiles(episode)) {
+      const exists = await fs.promises.access(file).then(() => true, () => false);
+      if (exists) files.push(file);
+    }
+
+    console.log(`${dryRun ? "Would purge" : "Purging"} e${episode.episodeNumber} ${episode.title} (${files.length} local files)`);
+    if (!dryRun) {
+      await Promise.all(files.map((file) => fs.promises.rm(file, { force: true })));
+    }
+  }
+
+  const resourceIds = episodes
+    .map((episode) => episode.resourceId)
+    .filter((id): id is string => Boolean(id));
+
+  if (!dryRun && resourceIds.length > 0) {
+    // Embeddings, chapters, entities, guest links and ingestion state cascade
+    await db.delete(resources).where(inArray(resources.id, resourceIds));
+  }
+
+  return episodes.length;
+}
@@ -0,0 +1,102 @@
+import { desc, eq } from "drizzle-orm";
+import { db } from "../db/index";
+import { Resource, resources } from "../db/schema/resources";
+import { PodcastEpisode } from "./podcast-feed";
+
+// Types
+export interface EpisodeFilters {
+  // Episode numbers as they appear in the feed, e.g. "521"
+  episodeNumbers?: string[];
+  guids?: string[];
+  // Only episodes published on or after this date
+  since?: Date;
+  maxEpisodes?: number;
+  offset?: number;
+}
+
+/**
+ * Rebuilds pipeline episode metadata from a stored resource
+ */
+export function resourceToEpisode(resource: Resource): PodcastEpisode {
+  return {
+    podcastId: resource.podcastId,
+    resourceId: resource.id,
+    guid: resource.guid ?? "",
+    title: resource.title ?? "",
+    link: resource.link ?? "",
+    pubDate: resource.pubDate ?? new Date(0),
+    description: resource.description ?? "",
+    enclosureUrl: resource.enclosureUrl ?? "",
+    author: resource.author ?? "",
+    duration: resource.duration ?? "",
+    episodeNumber: resource.episodeNumber ?? "",
+    episodeType: resource.episodeType,
+  };
+}
+
+/**
+ * Whether any filter that picks out specific episodes is set
+ */
+export function hasEpisodeFilters(filters: EpisodeFilters): boolean {
+  return Boolean(filters.episodeNumbers?.length || filters.guids?.length || filters.since);
+}
+
+/**
+ * Keep the episodes matching the episode number, guid and date filters, then
+ * apply the offset and maximum
+ * @param episodes Episodes, newest first
+ * @param filters Filters from the command line
+ * @returns Matching episodes
+ */
+export function filterEpisodes(episodes: PodcastEpisode[], filters: EpisodeFilters): PodcastEpisode[] {
+  const matching = episodes.filter(
+    (episode) =>
+      (!filters.episodeNumbers?.length || filters.episodeNumbers.includes(episode.episodeNumber)) &&
+      (!filters.guids?.length || filters.guids.includes(episode.guid)) &&
+      (!filters.since || episode.pubDate >= filters.since)
+  );
+
+  const offset = filters.offset ?? 0;
+  return filters.maxEpisodes !== undefined
+    ? matching.slice(offset, offset + filters.maxEpisodes)
+    : matching.slice(offset);
+}
+
+/**
+ * Load a show's stored episodes that match the filters, newest first
+ * @param podcastId Show to load
+ * @param filters Filters from the command line
+ * @returns Matching episodes with their resource IDs
+ */
+export async function selectStoredEpisodes(
+  podcastId: string,
+  filters: EpisodeFilters
+): Promise<PodcastEpisode[]> {
+  const podcastResources = await db
+    .select()
+    .from(resources)
+    .where(eq(resources.podcastId, podcastId))
+    .orderBy(desc(resources.pubDate));
+
+  return filterEpisodes(podcastResources.map(resourceToEpisode), filters);
+}
+
+/**
+ * Fill in the resource IDs of feed episodes that are already stored, without
+ * creating resources for the rest
+ * @param podcastId Show the episodes belong to
+ * @param episodes Episodes parsed from the feed
+ * @returns Episodes with resource IDs where a resource exists
+ */
+export async function attachStoredResourceIds(
+  podcastId: string,
+  episodes: PodcastEpisode[]
+): Promise<PodcastEpisode[]> {
+  const stored = await selectStoredEpisodes(podcastId, {});
+  const resourceIds = new Map(stored.map((episode) => [episode.guid, episode.resourceId]));
+
+  return episodes.map((episode) => ({
+    ...episode,
+    resourceId: episode.resourceId ?? resourceIds.get(episode.guid),
+  }));
+}
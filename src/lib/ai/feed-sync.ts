@@ -0,0 +1,227 @@
+import fs from "fs";
+import { eq } from "drizzle-orm";
+import { db } from "../db/index";
+import { Podcast, podcasts } from "../db/schema/podcasts";
+import { Resource, resources } from "../db/schema/resources";
+import { fetchPodcastFeedIfChanged, getAudioFilePath, PodcastEpisode } from "./podcast-feed";
+import { createResources } from "./processors";
+import { resourceToEpisode } from "./episode-selection";
+import {
+  INGESTION_STAGES,
+  getIngestionStates,
+  isStageComplete,
+  resetStages,
+} from "./ingestion-state";
+
+// Types
+export interface ChangedEpisode {
+  episode: PodcastEpisode;
+  changedFields: string[];
+}
+
+export interface FeedSyncReport {
+  podcast: Podcast;
+  notModified: boolean;
+  newEpisodes: PodcastEpisode[];
+  changedEpisodes: ChangedEpisode[];
+  // Episodes still in the database that the feed no longer lists
+  removedEpisodes: Resource[];
+  unchangedCount: number;
+  // Episodes to run through the pipeline: new, changed and unfinished from earlier runs
+  queue: PodcastEpisode[];
+}
+
+// Feed fields compared against the stored resource. A new enclosure means new
+// audio, so the episode is reprocessed from the download stage; metadata
+// changes only need the summary and embeddings redone. Identity fields are
+// stored but don't change any derived data, so they reset no stages.
+const ENCLOSURE_FIELDS = ["enclosureUrl"] as const;
+const METADATA_FIELDS = ["title", "description", "duration", "episodeNumber", "episodeType", "link"] as const;
+const IDENTITY_FIELDS: readonly string[] = ["episodeNumber", "episodeType"];
+
+function normalizeField(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+/**
+ * Lists the fields of a feed episode that differ from its stored resource
+ */
+function diffEpisode(
+  episode: PodcastEpisode,
+  resource: Resource,
+  fields: readonly (keyof PodcastEpisode & keyof Resource)[]
+): string[] {
+  return fields.filter(
+    (field) => normalizeField(episode[field]) !== normalizeField(resource[field])
+  );
+}
+
+/**
+ * Finds the show's episodes whose tracked ingestion hasn't finished every stage
+ */
+async function getUnfinishedEpisodes(podcastId: string): Promise<PodcastEpisode[]> {
+  const podcastResources = await db
+    .select()
+    .from(resources)
+    .where(eq(resources.podcastId, podcastId));
+
+  const states = await getIngestionStates(podcastResources.map((resource) => resource.id));
+
+  // Resources without any state predate stage tracking and aren't requeued
+  return podcastResources
+    .filter((resource) => {
+      const state = states.get(resource.id);
+      return state && INGESTION_STAGES.some((stage) => !isStageComplete(state, stage));
+    })
+    .map(resourceToEpisode);
+}
+
+/**
+ * Syncs a show's feed with the database: creates resources for new episodes,
+ * updates changed ones and queues both for processing
+ * @param podcast Show to sync
+ * @param options dryRun reports the changes and queue without writing anything
+ * @returns Change report and the queue of episodes to process
+ */
+export async function syncPodcastFeed(
+  podcast: Podcast,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<FeedSyncReport> {
+  const report: FeedSyncReport = {
+    podcast,
+    notModified: false,
+    newEpisodes: [],
+    changedEpisodes: [],
+    removedEpisodes: [],
+    unchangedCount: 0,
+    queue: [],
+  };
+
+  const feed = await fetchPodcastFeedIfChanged(podcast);
+
+  if (feed.notModified) {
+    report.notModified = true;
+  } else {
+    const existingResources = await db
+      .select()
+      .from(resources)
+      .where(eq(resources.podcastId, podcast.id));
+    const resourcesByGuid = new Map(existingResources.map((resource) => [resource.guid, resource]));
+    const feedGuids = new Set(feed.episodes.map((episode) => episode.guid));
+
+    for (const episode of feed.episodes) {
+      const resource = resourcesByGuid.get(episode.guid);
+      if (!resource) {
+        report.newEpisodes.push(episode);
+        continue;
+      }
+
+      const enclosureChanges = diffEpisode(episode, resource, ENCLOSURE_FIELDS);
+      const metadataChanges = diffEpisode(episode, resource, METADATA_FIELDS);
+      if (enclosureChanges.length === 0 && metadataChanges.length === 0) {
+        report.unchangedCount++;
+        continue;
+      }
+
+      report.changedEpisodes.push({
+        episode: { ...episode, resourceId: resource.id },
+        changedFields: [...enclosureChanges, ...metadataChanges],
+      });
+      if (dryRun) {
+        continue;
+      }
+
+      // Store the new feed values and mark the affected stages for another pass
+      await db
+        .update(resources)
+        .set({
+          title: episode.title,
+          link: episode.link,
+          description: episode.description,
+          enclosureUrl: episode.enclosureUrl,
+          duration: episode.duration,
+          episodeNumber: episode.episodeNumber,
+          episodeType: episode.episodeType,
+          updatedAt: new Date(),
+        })
+        .where(eq(resources.id, resource.id));
+      if (enclosureChanges.length > 0) {
+        // Drop the old audio so it isn't mistaken for a partial copy of the new file
+        await fs.promises.rm(getAudioFilePath(episode), { force: true });
+        await resetStages(resource.id, "download");
+      } else if (metadataChanges.some((field) => !IDENTITY_FIELDS.includes(field))) {
+        await resetStages(resource.id, "summarize");
+      }
+    }
+
+    report.removedEpisodes = existingResources.filter(
+      (resource) => resource.guid && !feedGuids.has(resource.guid)
+    );
+
+    if (dryRun) {
+      // Nothing was written, so queue the changes alongside what's already unfinished
+      const unfinished = await getUnfinishedEpisodes(podcast.id);
+      const queued = new Map(
+        [...unfinished, ...report.changedEpisodes.map(({ episode }) => episode), ...report.newEpisodes]
+          .map((episode) => [episode.guid, episode])
+      );
+      report.queue = [...queued.values()].sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime());
+      return report;
+    }
+
+    // New episodes get a resource (and ingestion state) right away, so a crash
+    // after this point still leaves them queued for the next sync
+    const createdEpisodes = await createResources(report.newEpisodes);
+    await Promise.all(
+      createdEpisodes.map((episode) => episode.resourceId && resetStages(episode.resourceId, "download"))
+    );
+    report.newEpisodes = createdEpisodes;
+
+    await db
+      .update(podcasts)
+      .set({
+        feedEtag: feed.etag,
+        feedLastModified: feed.lastModified,
+        feedSyncedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(podcasts.id, podcast.id));
+  }
+
+  report.queue = (await getUnfinishedEpisodes(podcast.id)).sort(
+    (a, b) => b.pubDate.getTime() - a.pubDate.getTime()
+  );
+
+  return report;
+}
+
+/**
+ * Prints a summary of what a feed sync found
+ * @param report Report returned by syncPodcastFeed
+ */
+export function printFeedSyncReport(report: FeedSyncReport): void {
+  console.log(`\nFeed sync report for ${report.podcast.name}`);
+
+  if (report.notModified) {
+    console.log("  Feed not modified since the last sync");
+  } else {
+    console.log(`  New episodes: ${report.newEpisodes.length}`);
+    for (const episode of report.newEpisodes) {
+      console.log(`    + e${episode.episodeNumber} ${episode.title}`);
+    }
+
+    console.log(`  Changed episodes: ${report.changedEpisodes.length}`);
+    for (const { episode, changedFields } of report.changedEpisodes) {
+      console.log(`    ~ e${episode.episodeNumber} ${episode.title} (${changedFields.join(", ")})`);
+    }
+
+    console.log(`  Removed from feed: ${report.removedEpisodes.length}`);
+    for (const resource of report.removedEpisodes) {
+      console.log(`    - e${resource.episodeNumber} ${resource.title}`);
+    }
+
+    console.log(`  Unchanged episodes: ${report.unchangedCount}`);
+  }
+
+  console.log(`  Queued for processing: ${report.queue.length}`);
+}
@@ -0,0 +1,127 @@
+import { eq, isNull, or } from 'drizzle-orm';
+import { encode } from 'gpt-tokenizer';
+import { db } from '../db/index';
+import { glossaryTerms } from '../db/schema/glossary-terms';
+import { Podcast } from '../db/schema/podcasts';
+import { TranscriptSegment } from './transcript-timing';
+
+// Types
+export interface Glossary {
+  // Canonical spellings, most important first, used as a vocabulary hint for transcription
+  terms: string[];
+  // Matches any known misspelling; null when there is nothing to correct
+  pattern: RegExp | null;
+  corrections: Map<string, string>;
+}
+
+// Whisper only reads the last 224 tokens of its prompt
+const MAX_VOCABULARY_PROMPT_TOKENS = 224;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a glossary from canonical terms and their misspellings
+ * @param entries Canonical terms with their known variants
+ * @returns Glossary ready for prompts and corrections
+ */
+export function createGlossary(entries: { term: string; variants: string[] }[]): Glossary {
+  const corrections = new Map<string, string>();
+  for (const { term, variants } of entries) {
+    for (const variant of variants) {
+      corrections.set(variant.toLowerCase(), term);
+    }
+  }
+
+  // Longest variants first, so "Bracken Crocker" wins over "Bracken"
+  const variants = [...corrections.keys()].sort((a, b) => b.length - a.length);
+  const pattern = variants.length > 0
+    ? new RegExp(
+        `(?<![\\p{L}\\p{N}])(${variants.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+        'giu'
+      )
+    : null;
+
+  return {
+    terms: [...new Set(entries.map((entry) => entry.term))],
+    pattern,
+    corrections,
+  };
+}
+
+/**
+ * Load the glossary for a show: its own terms, terms shared by every show and
+ * the show's host names
+ * @param podcast Show being processed
+ * @returns Glossary for the show
+ */
+export async function getGlossary(podcast: Podcast): Promise<Glossary> {
+  const rows = await db
+    .select()
+    .from(glossaryTerms)
+    .where(or(eq(glossaryTerms.podcastId, podcast.id), isNull(glossaryTerms.podcastId)));
+
+  // Most important first: host names, then the show's own terms, then shared ones
+  return createGlossary([
+    ...podcast.hosts.map((host) => ({ term: host, variants: [] })),
+    ...rows.filter((row) => row.podcastId !== null),
+    ...rows.filter((row) => row.podcastId === null),
+  ]);
+}
+
+/**
+ * Describe the glossary for a transcription prompt, so the model spells
+ * names and jargon correctly in the first place
+ * @param glossary Glossary for the show
+ * @returns Prompt text, or undefined when the glossary is empty
+ */
+export function createVocabularyPrompt(glossary: Glossary): string | undefined {
+  if (glossary.terms.length === 0) {
+    return undefined;
+  }
+
+  // Keep the most important terms that fit in Whisper's window and list them
+  // last, so they are what it reads even if the token estimate runs short
+  const formatPrompt = (terms: string[]) => `Glossary: ${[...terms].reverse().join(', ')}.`;
+  const kept: string[] = [];
+  for (const term of glossary.terms) {
+    if (encode(formatPrompt([...kept, term])).length > MAX_VOCABULARY_PROMPT_TOKENS) {
+      break;
+    }
+    kept.push(term);
+  }
+  return kept.length > 0 ? formatPrompt(kept) : undefined;
+}
+
+/**
+ * Replace known misspellings with their canonical terms
+ * @param text Transcript text
+ * @param glossary Glossary for the show
+ * @returns Corrected text
+ */
+export function applyGlossary(text: string, glossary: Glossary): string {
+  if (!glossary.pattern) {
+    return text;
+  }
+  return text.replace(
+    glossary.pattern,
+    (match) => glossary.corrections.get(match.toLowerCase()) ?? match
+  );
+}
+
+/**
+ * Correct the text of every segment, keeping their timing
+ * @param segments Transcript segments
+ * @param glossary Glossary for the show
+ * @returns Corrected segments
+ */
+export function applyGlossaryToSegments(
+  segments: TranscriptSegment[],
+  glossary: Glossary
+): TranscriptSegment[] {
+  return segments.map((segment) => ({
+    ...segment,
+    text: applyGlossary(segment.text, glossary),
+  }));
+}
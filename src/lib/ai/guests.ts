@@ -0,0 +1,353 @@
+import { and, desc, eq, like, or, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { Guest, guests } from "../db/schema/guests";
+import { episodeGuests } from "../db/schema/episode-guests";
+import { resources } from "../db/schema/resources";
+
+// Common short forms of first names; the only first names merged automatically
+const NICKNAMES: Record<string, string[]> = {
+  william: ["bill", "billy", "will", "liam"],
+  robert: ["bob", "bobby", "rob", "robbie"],
+  richard: ["rich", "rick", "ricky", "dick"],
+  james: ["jim", "jimmy", "jamie"],
+  margaret: ["maggie", "meg", "peggy"],
+  elizabeth: ["liz", "lizzie", "beth", "betsy"],
+  katherine: ["kate", "katie", "kathy"],
+  catherine: ["cate", "cathy"],
+  jennifer: ["jen", "jenny"],
+  alexander: ["alex", "xander"],
+  anthony: ["tony"],
+  edward: ["ed", "eddie", "ted"],
+  john: ["jack", "johnny"],
+  joseph: ["joe", "joey"],
+  michael: ["mike", "mikey"],
+  nicholas: ["nick", "nicky"],
+  rebecca: ["becky", "becca"],
+  stephen: ["steve"],
+  steven: ["steve"],
+  susan: ["sue", "susie"],
+};
+
+/**
+ * Turn a guest name into the slug used to match spellings of it
+ * @param name Guest name, e.g. "Rich Ryan"
+ * @returns Slug, e.g. "rich-ryan"
+ */
+export function slugifyGuestName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Whether one first name is a known nickname of the other, e.g. "rich" and "richard"
+ */
+function isNickname(a: string, b: string): boolean {
+  return (NICKNAMES[a] ?? []).includes(b) || (NICKNAMES[b] ?? []).includes(a);
+}
+
+/**
+ * Whether two first names are the same name or a known nickname of it
+ */
+function isSameFirstName(a: string, b: string): boolean {
+  return a === b || isNickname(a, b);
+}
+
+/**
+ * Whether one first name starts with the other, e.g. "dan" and "danielle".
+ * These are often different people, so they're only suggested for merging.
+ */
+function isSimilarFirstName(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 3 && longer.startsWith(shorter);
+}
+
+/**
+ * Whether two slugs share a surname and have first names that pass the given check
+ */
+function hasMatchingName(
+  slug: string,
+  otherSlug: string,
+  isMatchingFirstName: (a: string, b: string) => boolean
+): boolean {
+  const parts = slug.split("-");
+  const otherParts = otherSlug.split("-");
+  if (parts.length < 2 || otherParts.length < 2) return false;
+
+  return (
+    parts[parts.length - 1] === otherParts[otherParts.length - 1] &&
+    isMatchingFirstName(parts[0], otherParts[0])
+  );
+}
+
+function suggestMerge(name: string, otherName: string): void {
+  console.log(`Guest "${name}" may be "${otherName}"; if so, run: pnpm merge-guests "${name}" "${otherName}"`);
+}
+
+/**
+ * Find a guest by name, matching the canonical slug or any merged alias
+ * @param name Guest name as written anywhere
+ * @returns The guest, or null when no guest has that name
+ */
+export async function findGuest(name: string): Promise<Guest | null> {
+  const slug = slugifyGuestName(name);
+  if (!slug) return null;
+
+  const [guest] = await db
+    .select()
+    .from(guests)
+    .where(or(
+      eq(guests.slug, slug),
+      sql`${guests.aliasSlugs} @> ${JSON.stringify([slug])}::jsonb`
+    ))
+    .limit(1);
+
+  return guest ?? null;
+}
+
+/**
+ * Add a spelling to a guest's aliases
+ */
+async function addAlias(guest: Guest, alias: string): Promise<void> {
+  const aliasSlug = slugifyGuestName(alias);
+  if (aliasSlug === guest.slug || guest.aliasSlugs.includes(aliasSlug)) return;
+
+  await db
+    .update(guests)
+    .set({
+      aliases: [...guest.aliases, alias],
+      aliasSlugs: [...guest.aliasSlugs, aliasSlug],
+      updatedAt: new Date(),
+    })
+    .where(eq(guests.id, guest.id));
+}
+
+/**
+ * Find the guest a name refers to, merging it as an alias of an existing
+ * guest with the same surname and the same first name or a known nickname
+ * of it, or create a new guest
+ * @param name Guest name from a summary
+ * @returns The guest, or null for an empty name
+ */
+export async function resolveGuest(name: string): Promise<Guest | null> {
+  const cleanName = name.replace(/\s+/g, " ").trim();
+  const slug = slugifyGuestName(cleanName);
+  if (!slug) return null;
+
+  const existing = await findGuest(cleanName);
+  if (existing) return existing;
+
+  // Same surname and a nickname of the first name, e.g. "Rich Ryan" and "Richard Ryan"
+  const surname = slug.split("-").pop();
+  const candidates = await db
+    .select()
+    .from(guests)
+    .where(like(guests.slug, `%-${surname}`));
+  const match = candidates.find((candidate) => hasMatchingName(slug, candidate.slug, isSameFirstName));
+  if (match) {
+    console.log(`Merging guest "${cleanName}" into "${match.name}"`);
+    await addAlias(match, cleanName);
+    return match;
+  }
+
+  const similar = candidates.find((candidate) => hasMatchingName(slug, candidate.slug, isSimilarFirstName));
+  if (similar) {
+    suggestMerge(cleanName, similar.name);
+  }
+
+  const [created] = await db
+    .insert(guests)
+    .values({ slug, name: cleanName })
+    .onConflictDoNothing()
+    .returning();
+
+  return created ?? findGuest(cleanName);
+}
+
+/**
+ * Replace the guests linked to an episode
+ * @param resourceId ID of the episode's resource
+ * @param names Guest names from the episode summary
+ */
+export async function setEpisodeGuests(resourceId: string, names: string[]): Promise<void> {
+  const guestIds = new Set<string>();
+  for (const name of names) {
+    const guest = await resolveGuest(name);
+    if (guest) guestIds.add(guest.id);
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(episodeGuests).where(eq(episodeGuests.resourceId, resourceId));
+    if (guestIds.size > 0) {
+      await tx
+        .insert(episodeGuests)
+        .values([...guestIds].map((guestId) => ({ resourceId, guestId })));
+    }
+  });
+}
+
+/**
+ * List the canonical names of an episode's guests, so merged spellings
+ * show up under the name that was kept
+ * @param resourceId ID of the episode's resource
+ * @returns Guest names in alphabetical order
+ */
+export async function getEpisodeGuestNames(resourceId: string): Promise<string[]> {
+  const rows = await db
+    .select({ name: guests.name })
+    .from(episodeGuests)
+    .innerJoin(guests, eq(episodeGuests.guestId, guests.id))
+    .where(eq(episodeGuests.resourceId, resourceId))
+    .orderBy(guests.name);
+
+  return rows.map((row) => row.name);
+}
+
+/**
+ * Merge one guest into another: episodes and spellings move to the target
+ * and the source guest is removed
+ * @param fromName Name or slug of the guest to merge away
+ * @param intoName Name or slug of the guest to keep
+ * @returns The guest that was kept
+ */
+export async function mergeGuests(fromName: string, intoName: string): Promise<Guest> {
+  const from = await findGuest(fromName);
+  const into = await findGuest(intoName);
+  if (!from) throw new Error(`No guest found for "${fromName}"`);
+  if (!into) throw new Error(`No guest found for "${intoName}"`);
+  if (from.id === into.id) return into;
+
+  const aliases = [...into.aliases, from.name, ...from.aliases];
+  const aliasSlugs = [...new Set([...into.aliasSlugs, from.slug, ...from.aliasSlugs])];
+
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`
+      INSERT INTO ${episodeGuests} (resource_id, guest_id)
+      SELECT resource_id, ${into.id} FROM ${episodeGuests} WHERE guest_id = ${from.id}
+      ON CONFLICT DO NOTHING
+    `);
+    await tx.delete(guests).where(eq(guests.id, from.id));
+
+    const [merged] = await tx
+      .update(guests)
+      .set({ aliases: [...new Set(aliases)], aliasSlugs, updatedAt: new Date() })
+      .where(eq(guests.id, into.id))
+      .returning();
+    return merged;
+  });
+}
+
+export interface GuestPair {
+  from: Guest;
+  into: Guest;
+}
+
+/**
+ * Find existing guests that name the same person, e.g. spellings added before
+ * they were merged automatically or backfilled by the migration
+ * @returns Pairs to merge by the same rule as resolveGuest, keeping the full first
+ * name or else the older guest, and pairs that only look alike and need checking by hand
+ */
+export async function findDuplicateGuests(): Promise<{ merges: GuestPair[]; suggestions: GuestPair[] }> {
+  const allGuests = await db.select().from(guests).orderBy(guests.createdAt);
+
+  const bySurname = new Map<string, Guest[]>();
+  for (const guest of allGuests) {
+    const surname = guest.slug.split("-").pop() ?? "";
+    bySurname.set(surname, [...(bySurname.get(surname) ?? []), guest]);
+  }
+
+  const merges: GuestPair[] = [];
+  const suggestions: GuestPair[] = [];
+  for (const group of bySurname.values()) {
+    group.forEach((older, index) => {
+      for (const newer of group.slice(index + 1)) {
+        if (hasMatchingName(older.slug, newer.slug, isSameFirstName)) {
+          const keepsNewer = Boolean(NICKNAMES[newer.slug.split("-")[0]]?.includes(older.slug.split("-")[0]));
+          merges.push(keepsNewer ? { from: older, into: newer } : { from: newer, into: older });
+        } else if (hasMatchingName(older.slug, newer.slug, isSimilarFirstName)) {
+          suggestions.push({ from: newer, into: older });
+        }
+      }
+    });
+  }
+
+  return { merges, suggestions };
+}
+
+/**
+ * Merge the existing guests that name the same person and print the ones that only look alike
+ * @returns Number of guests merged
+ */
+export async function mergeDuplicateGuests(): Promise<number> {
+  const { merges, suggestions } = await findDuplicateGuests();
+
+  // Merged slugs become aliases, so a guest that was already merged away still resolves to where it went
+  for (const { from, into } of merges) {
+    console.log(`Merging guest "${from.name}" into "${into.name}"`);
+    await mergeGuests(from.slug, into.slug);
+  }
+  for (const { from, into } of suggestions) {
+    suggestMerge(from.name, into.name);
+  }
+
+  return merges.length;
+}
+
+/**
+ * List every guest with the episodes they appeared on, optionally for one show
+ * @param podcastId Only count episodes of this show
+ * @returns Guests ordered by number of appearances
+ */
+export async function listGuests(podcastId?: string) {
+  const rows = await db
+    .select({
+      slug: guests.slug,
+      name: guests.name,
+      episodeNumber: resources.episodeNumber,
+      title: resources.title,
+    })
+    .from(episodeGuests)
+    .innerJoin(guests, eq(episodeGuests.guestId, guests.id))
+    .innerJoin(resources, eq(episodeGuests.resourceId, resources.id))
+    .where(podcastId ? eq(resources.podcastId, podcastId) : undefined)
+    .orderBy(desc(resources.pubDate));
+
+  const guestMap = new Map<string, { name: string; episodes: { episodeNumber: string | null; title: string | null }[] }>();
+  for (const row of rows) {
+    const guest = guestMap.get(row.slug) ?? { name: row.name, episodes: [] };
+    guest.episodes.push({ episodeNumber: row.episodeNumber, title: row.title });
+    guestMap.set(row.slug, guest);
+  }
+
+  return Array.from(guestMap.values())
+    .map(({ name, episodes }) => ({ name, episodeCount: episodes.length, episodes }))
+    .sort((a, b) => b.episodeCount - a.episodeCount || a.name.localeCompare(b.name));
+}
+
+/**
+ * Find the most recent episode a guest appeared on, optionally within one show
+ * @param name Guest name or any merged spelling of it
+ * @param podcastId Only consider episodes of this show
+ * @returns Resource ID of the episode, or null when the name isn't a known guest
+ */
+export async function findLatestEpisodeWithGuest(name: string, podcastId?: string): Promise<string | null> {
+  const guest = await findGuest(name);
+  if (!guest) return null;
+
+  const [episode] = await db
+    .select({ id: resources.id })
+    .from(episodeGuests)
+    .innerJoin(guests, eq(episodeGuests.guestId, guests.id))
+    .innerJoin(resources, eq(episodeGuests.resourceId, resources.id))
+    .where(and(
+      eq(guests.id, guest.id),
+      podcastId ? eq(resources.podcastId, podcastId) : undefined
+    ))
+    .orderBy(desc(resources.pubDate))
+    .limit(1);
+
+  return episode?.id ?? null;
+}
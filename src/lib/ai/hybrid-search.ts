@@ -0,0 +1,189 @@
+import {
+  HYBRID_CANDIDATE_COUNT,
+  HYBRID_KEYWORD_WEIGHT,
+  HYBRID_RRF_K,
+  HYBRID_SEMANTIC_WEIGHT,
+  NEIGHBOR_WINDOW_TOKENS,
+  RERANK_CANDIDATE_COUNT,
+} from "./config";
+import { findSimilarChunks } from "./embedding";
+import { expandToNeighborWindows } from "./episode-chunks";
+import { searchTranscriptChunks } from "./keyword-search";
+import { shouldAbortRun } from "./provider-client";
+import { getReranker } from "./reranking";
+import { formatTimestamp } from "./transcript-timing";
+import { UsageContext } from "./usage";
+
+// Types
+export type MatchSignal = "semantic" | "keyword";
+
+type RetrievedChunk = Omit<Awaited<ReturnType<typeof findSimilarChunks>>[number], "similarity">;
+
+export interface FusedChunk extends RetrievedChunk {
+  // Reciprocal rank fusion score; higher is better
+  score: number;
+  // Searches that returned the chunk
+  matchedBy: MatchSignal[];
+  // Cosine similarity, when vector search found the chunk
+  similarity: number | null;
+  semanticRank: number | null;
+  keywordRank: number | null;
+  // Keyword search snippet with the matched words in **bold**
+  headline: string | null;
+}
+
+export interface RerankedChunk extends FusedChunk {
+  // Reranker relevance score; null when no reranker ran
+  rerankScore: number | null;
+}
+
+export interface HybridSearchOptions {
+  podcastId?: string;
+  // Whether to search intros, ad reads and outros too
+  includeNonContent?: boolean;
+  // Results to return after fusing
+  matchCount?: number;
+  // Chunks taken from each search before fusing
+  candidateCount?: number;
+  // Weight of each ranking in the fused score; 0 skips that search
+  semanticWeight?: number;
+  keywordWeight?: number;
+  // Reranker name (defaults to RERANKER) and how many fused chunks it scores
+  reranker?: string;
+  rerankCount?: number;
+  // Token budget of each result's window of neighboring chunks
+  windowTokens?: number;
+  usage?: UsageContext;
+}
+
+/**
+ * Run one search of the hybrid, treating a failure as no results so the
+ * other search can still answer
+ */
+async function runSearch<T>(signal: MatchSignal, search: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await search();
+  } catch (error) {
+    console.error(`Error in ${signal} search:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fuse ranked result lists with reciprocal rank fusion
+ * @param rankings Results of each search, best first, with the weight of that search
+ * @returns Chunks by fused score, best first
+ */
+function fuseRankings(
+  rankings: { signal: MatchSignal; weight: number; chunks: (RetrievedChunk & { similarity?: number; headline?: string })[] }[]
+): FusedChunk[] {
+  const fused = new Map<string, FusedChunk>();
+
+  for (const { signal, weight, chunks } of rankings) {
+    chunks.forEach(({ similarity, headline, ...chunk }, i) => {
+      const rank = i + 1;
+      const entry: FusedChunk = fused.get(chunk.id) ?? {
+        ...chunk,
+        score: 0,
+        matchedBy: [],
+        similarity: null,
+        semanticRank: null,
+        keywordRank: null,
+        headline: null,
+      };
+
+      entry.score += weight / (HYBRID_RRF_K + rank);
+      entry.matchedBy.push(signal);
+      if (signal === "semantic") {
+        entry.semanticRank = rank;
+        entry.similarity = similarity ?? null;
+      } else {
+        entry.keywordRank = rank;
+        entry.headline = headline ?? null;
+      }
+      fused.set(chunk.id, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reorder fused chunks by reranker score. A reranker failure keeps the fused
+ * order unless it should stop the run.
+ * @param query User query
+ * @param chunks Fused chunks, best first
+ * @param rerankerName Reranker to use
+ * @param usage Usage context for model calls
+ * @returns Chunks by rerank score, best first
+ */
+async function rerankChunks(
+  query: string,
+  chunks: FusedChunk[],
+  rerankerName: string | undefined,
+  usage: UsageContext
+): Promise<RerankedChunk[]> {
+  let scores: number[] | null = null;
+  if (chunks.length > 0) {
+    const reranker = getReranker(rerankerName);
+    try {
+      scores = await reranker.rerank({ query, passages: chunks.map((chunk) => chunk.content), usage });
+    } catch (error) {
+      if (shouldAbortRun(error)) throw error;
+      console.error(`Error in ${reranker.name} reranking, keeping fused order:`, error);
+    }
+  }
+
+  const reranked = chunks.map((chunk, i) => ({ ...chunk, rerankScore: scores?.[i] ?? null }));
+  // Stable sort, so ties keep their fused order
+  return scores ? reranked.sort((a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0)) : reranked;
+}
+
+/**
+ * Find the transcript passages that best answer a query by running vector
+ * and full-text search in parallel and fusing their rankings. The top fused
+ * chunks are then rescored by the configured reranker, and each result is
+ * widened with its neighboring chunks.
+ * @param query User query
+ * @param options Show filter, result counts, search weights, reranker and usage context
+ * @returns Passages, best first, each reporting which searches matched it and its rerank score
+ */
+export async function hybridSearch(query: string, options: HybridSearchOptions = {}) {
+  const {
+    podcastId,
+    includeNonContent = false,
+    matchCount = 4,
+    candidateCount = HYBRID_CANDIDATE_COUNT,
+    semanticWeight = HYBRID_SEMANTIC_WEIGHT,
+    keywordWeight = HYBRID_KEYWORD_WEIGHT,
+    reranker,
+    rerankCount = RERANK_CANDIDATE_COUNT,
+    windowTokens = NEIGHBOR_WINDOW_TOKENS,
+    usage,
+  } = options;
+
+  const [semanticChunks, keywordChunks] = await Promise.all([
+    semanticWeight > 0
+      ? runSearch("semantic", () => findSimilarChunks(query, undefined, candidateCount, podcastId, includeNonContent, usage))
+      : [],
+    keywordWeight > 0
+      ? runSearch("keyword", () => searchTranscriptChunks(query, { podcastId, includeNonContent, limit: candidateCount }))
+      : [],
+  ]);
+
+  const fused = fuseRankings([
+    { signal: "semantic", weight: semanticWeight, chunks: semanticChunks },
+    { signal: "keyword", weight: keywordWeight, chunks: keywordChunks.map(({ rank, timestamp, ...chunk }) => chunk) },
+  ]);
+
+  const reranked = await rerankChunks(query, fused.slice(0, Math.max(rerankCount, matchCount)), reranker, usage ?? { step: "search" });
+  const matches = reranked.slice(0, matchCount);
+
+  // Match on small chunks, answer with the passage around them
+  const windows = await expandToNeighborWindows(matches, windowTokens, includeNonContent);
+
+  return windows.map((window) => ({
+    ...window,
+    timestamp: window.startSeconds !== null ? formatTimestamp(window.startSeconds) : null,
+  }));
+}
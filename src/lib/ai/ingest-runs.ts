@@ -0,0 +1,174 @@
+import { and, desc, eq, isNotNull, or, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { ingestRuns } from "../db/schema/ingest-runs";
+import { ingestRunResults } from "../db/schema/ingest-run-results";
+import { ingestionState } from "../db/schema/ingestion-state";
+import { resources } from "../db/schema/resources";
+import type { IngestionStage } from "./ingestion-state";
+import { getRunCost } from "./usage";
+
+// Types
+export type IngestRunStatus = "running" | "succeeded" | "failed";
+
+// Run being recorded by this process, if any. Stage results and counts go to it.
+let currentRunId: string | null = null;
+let runCounts: Record<string, number> = {};
+
+/**
+ * Start recording a pipeline run
+ * @param command Subcommand being run
+ * @param args Command-line arguments
+ * @returns ID of the run
+ */
+export async function startIngestRun(command: string, args: string[]): Promise<string> {
+  const [run] = await db
+    .insert(ingestRuns)
+    .values({ command, args })
+    .returning({ id: ingestRuns.id });
+
+  currentRunId = run.id;
+  runCounts = {};
+  return run.id;
+}
+
+/**
+ * Add to one of the current run's totals, e.g. "embeddingsInserted"
+ */
+export function countForRun(name: string, amount = 1): void {
+  if (!currentRunId) return;
+  runCounts[name] = (runCounts[name] ?? 0) + amount;
+}
+
+/**
+ * Record a stage outcome for an episode against the current run. Failures
+ * are logged rather than thrown so recording never breaks ingestion.
+ */
+export async function recordStageResult(
+  resourceId: string,
+  stage: IngestionStage,
+  error: string | null
+): Promise<void> {
+  if (!currentRunId) return;
+
+  try {
+    await db.insert(ingestRunResults).values({
+      runId: currentRunId,
+      resourceId,
+      stage,
+      status: error === null ? "completed" : "failed",
+      error,
+    });
+  } catch (recordError) {
+    console.warn(`Could not record ${stage} result for ${resourceId}:`, recordError);
+  }
+}
+
+/**
+ * Finish the current run with its totals and estimated cost
+ * @param error Why the run stopped, or undefined when it succeeded
+ */
+export async function finishIngestRun(error?: unknown): Promise<void> {
+  if (!currentRunId) return;
+
+  await db
+    .update(ingestRuns)
+    .set({
+      status: error === undefined ? "succeeded" : "failed",
+      finishedAt: new Date(),
+      error: error === undefined ? null : error instanceof Error ? error.message : String(error),
+      counts: runCounts,
+      costUsd: getRunCost(),
+    })
+    .where(eq(ingestRuns.id, currentRunId));
+
+  currentRunId = null;
+}
+
+/**
+ * List the most recent runs with how many stage results completed and failed
+ * @param limit Number of runs to return
+ * @returns Runs, newest first
+ */
+export async function listRecentRuns(limit = 10) {
+  return db
+    .select({
+      id: ingestRuns.id,
+      command: ingestRuns.command,
+      args: ingestRuns.args,
+      status: ingestRuns.status,
+      startedAt: ingestRuns.startedAt,
+      finishedAt: ingestRuns.finishedAt,
+      error: ingestRuns.error,
+      counts: ingestRuns.counts,
+      costUsd: ingestRuns.costUsd,
+      completed: sql<number>`count(${ingestRunResults.id}) filter (where ${ingestRunResults.status} = 'completed')`.mapWith(Number),
+      failed: sql<number>`count(${ingestRunResults.id}) filter (where ${ingestRunResults.status} = 'failed')`.mapWith(Number),
+    })
+    .from(ingestRuns)
+    .leftJoin(ingestRunResults, eq(ingestRunResults.runId, ingestRuns.id))
+    .groupBy(ingestRuns.id)
+    .orderBy(desc(ingestRuns.startedAt))
+    .limit(limit);
+}
+
+/**
+ * List the stage failures recorded by one run
+ * @param runId Run to look up
+ * @returns Failures with their episode, which is null once the episode has been purged
+ */
+export async function listRunFailures(runId: string) {
+  return db
+    .select({
+      stage: ingestRunResults.stage,
+      error: ingestRunResults.error,
+      episodeNumber: resources.episodeNumber,
+      title: resources.title,
+    })
+    .from(ingestRunResults)
+    .leftJoin(resources, eq(ingestRunResults.resourceId, resources.id))
+    .where(and(
+      eq(ingestRunResults.runId, runId),
+      eq(ingestRunResults.status, "failed")
+    ))
+    .orderBy(ingestRunResults.createdAt);
+}
+
+/**
+ * List episodes with a stage that is currently failing, optionally for one show
+ * @param podcastId Only episodes of this show
+ * @returns Episodes with the error of each failing stage, most recently updated first
+ */
+export async function listFailingEpisodes(podcastId?: string) {
+  const rows = await db
+    .select({
+      resourceId: resources.id,
+      episodeNumber: resources.episodeNumber,
+      title: resources.title,
+      updatedAt: ingestionState.updatedAt,
+      download: ingestionState.downloadError,
+      transcribe: ingestionState.transcribeError,
+      summarize: ingestionState.summarizeError,
+      embed: ingestionState.embedError,
+      extract: ingestionState.extractError,
+    })
+    .from(ingestionState)
+    .innerJoin(resources, eq(ingestionState.resourceId, resources.id))
+    .where(and(
+      or(
+        isNotNull(ingestionState.downloadError),
+        isNotNull(ingestionState.transcribeError),
+        isNotNull(ingestionState.summarizeError),
+        isNotNull(ingestionState.embedError),
+        isNotNull(ingestionState.extractError)
+      ),
+      podcastId ? eq(resources.podcastId, podcastId) : undefined
+    ))
+    .orderBy(desc(ingestionState.updatedAt));
+
+  return rows.map(({ download, transcribe, summarize, embed, extract, ...episode }) => ({
+    ...episode,
+    errors: Object.fromEntries(
+      Object.entries({ download, transcribe, summarize, embed, extract }).filter(([, error]) => error !== null)
+    ) as Partial<Record<IngestionStage, string>>,
+  }));
+}
@@ -0,0 +1,183 @@
+import { inArray } from "drizzle-orm";
+import { db } from "../db/index";
+import { IngestionState, ingestionState } from "../db/schema/ingestion-state";
+import { PodcastEpisode } from "./podcast-feed";
+import { recordStageResult } from "./ingest-runs";
+
+// Pipeline stages in the order they run
+export const INGESTION_STAGES = ["download", "transcribe", "summarize", "embed", "extract"] as const;
+export type IngestionStage = (typeof INGESTION_STAGES)[number];
+
+// Columns recording completion and failure for each stage
+const STAGE_COLUMNS = {
+  download: { completedAt: "downloadedAt", error: "downloadError" },
+  transcribe: { completedAt: "transcribedAt", error: "transcribeError" },
+  summarize: { completedAt: "summarizedAt", error: "summarizeError" },
+  embed: { completedAt: "embeddedAt", error: "embedError" },
+  extract: { completedAt: "extractedAt", error: "extractError" },
+} as const;
+
+export function isIngestionStage(value: string): value is IngestionStage {
+  return (INGESTION_STAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a stage has to run again because an earlier or equal stage was forced
+ * @param stage Stage being considered
+ * @param force Stage passed with --force, if any
+ */
+export function isStageForced(stage: IngestionStage, force?: IngestionStage): boolean {
+  if (!force) return false;
+  return INGESTION_STAGES.indexOf(stage) >= INGESTION_STAGES.indexOf(force);
+}
+
+export function isStageComplete(state: IngestionState | undefined, stage: IngestionStage): boolean {
+  return Boolean(state?.[STAGE_COLUMNS[stage].completedAt]);
+}
+
+/**
+ * Loads the ingestion state for a set of resources
+ * @param resourceIds Resource IDs to look up
+ * @returns Map of resource ID to ingestion state
+ */
+export async function getIngestionStates(resourceIds: string[]): Promise<Map<string, IngestionState>> {
+  if (resourceIds.length === 0) {
+    return new Map();
+  }
+
+  const states = await db
+    .select()
+    .from(ingestionState)
+    .where(inArray(ingestionState.resourceId, resourceIds));
+
+  return new Map(states.map((state) => [state.resourceId, state]));
+}
+
+async function upsertStageColumns(resourceId: string, values: Partial<IngestionState>): Promise<void> {
+  await db
+    .insert(ingestionState)
+    .values({ resourceId, ...values, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: ingestionState.resourceId,
+      set: { ...values, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Records that a stage finished for a resource, clearing any previous error,
+ * and adds the result to the current run's history
+ * @param details Extra state to store with the stage, e.g. the verified audio size
+ */
+export async function markStageComplete(
+  resourceId: string | undefined,
+  stage: IngestionStage,
+  details: Partial<IngestionState> = {}
+): Promise<void> {
+  if (!resourceId) return;
+  const columns = STAGE_COLUMNS[stage];
+  await upsertStageColumns(resourceId, {
+    ...details,
+    [columns.completedAt]: new Date(),
+    [columns.error]: null,
+  });
+  await recordStageResult(resourceId, stage, null);
+}
+
+/**
+ * Records that a stage failed for a resource so the next run retries it,
+ * and adds the failure to the current run's history
+ */
+export async function markStageFailed(
+  resourceId: string | undefined,
+  stage: IngestionStage,
+  error: unknown
+): Promise<void> {
+  if (!resourceId) return;
+  const columns = STAGE_COLUMNS[stage];
+  const message = error instanceof Error ? error.message : String(error);
+  await upsertStageColumns(resourceId, {
+    [columns.completedAt]: null,
+    [columns.error]: message,
+  });
+  await recordStageResult(resourceId, stage, message);
+}
+
+/**
+ * Runs a pipeline stage only for the episodes that haven't completed it yet
+ * @param stage Stage to run
+ * @param episodes Episodes with resource IDs attached
+ * @param processor Stage implementation, responsible for marking each episode complete or failed
+ * @param force Stage passed with --force; it and every later stage rerun for all episodes.
+ * When a forced stage completes, the later stages are marked as not done, since
+ * their output was built from what the stage just replaced.
+ * @returns All episodes, with processed ones replaced by the processor's output
+ */
+export async function runStage(
+  stage: IngestionStage,
+  episodes: PodcastEpisode[],
+  processor: (episodes: PodcastEpisode[]) => Promise<PodcastEpisode[] | void>,
+  force?: IngestionStage
+): Promise<PodcastEpisode[]> {
+  const states = await getIngestionStates(
+    episodes.map((episode) => episode.resourceId).filter((id): id is string => Boolean(id))
+  );
+
+  const pending = episodes.filter(
+    (episode) =>
+      isStageForced(stage, force) ||
+      !isStageComplete(episode.resourceId ? states.get(episode.resourceId) : undefined, stage)
+  );
+
+  const skipped = episodes.length - pending.length;
+  if (skipped > 0) {
+    console.log(`Skipping ${skipped} episode(s) that already completed the ${stage} stage`);
+  }
+
+  if (pending.length === 0) {
+    return episodes;
+  }
+
+  const startedAt = new Date();
+  const processed = (await processor(pending)) || pending;
+  const processedByGuid = new Map(processed.map((episode) => [episode.guid, episode]));
+
+  const laterStages = INGESTION_STAGES.slice(INGESTION_STAGES.indexOf(stage) + 1);
+  if (isStageForced(stage, force) && laterStages.length > 0) {
+    const updatedStates = await getIngestionStates(
+      pending.map((episode) => episode.resourceId).filter((id): id is string => Boolean(id))
+    );
+    // Only episodes the stage completed for in this call; failures and skips keep their later stages
+    const rebuilt = [...updatedStates.values()].filter((state) => {
+      const completedAt = state[STAGE_COLUMNS[stage].completedAt];
+      return completedAt !== null && completedAt >= startedAt;
+    });
+    for (const state of rebuilt) {
+      await resetStages(state.resourceId, laterStages[0]);
+    }
+    if (rebuilt.length > 0) {
+      console.log(
+        `Marked ${laterStages.join(", ")} as not done for ${rebuilt.length} episode(s) with a rebuilt ${stage} stage`
+      );
+    }
+  }
+
+  return episodes.map((episode) => processedByGuid.get(episode.guid) ?? episode);
+}
+
+/**
+ * Marks a stage and every stage after it as not done, so the next run redoes them
+ * @param resourceId Resource to reset
+ * @param fromStage First stage to rerun
+ */
+export async function resetStages(resourceId: string, fromStage: IngestionStage): Promise<void> {
+  const values: Partial<IngestionState> = {};
+  for (const stage of INGESTION_STAGES.slice(INGESTION_STAGES.indexOf(fromStage))) {
+    values[STAGE_COLUMNS[stage].completedAt] = null;
+  }
+  // The recorded audio file no longer describes what should be downloaded
+  if (fromStage === "download") {
+    values.audioBytes = null;
+    values.audioSha256 = null;
+  }
+  await upsertStageColumns(resourceId, values);
+}
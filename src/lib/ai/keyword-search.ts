@@ -0,0 +1,108 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { embeddings } from "../db/schema/embeddings";
+import { podcasts } from "../db/schema/podcasts";
+import { resources } from "../db/schema/resources";
+import { FULL_TEXT_SEARCH_CONFIG, KEYWORD_SEARCH_LIMIT } from "./config";
+import { formatTimestamp } from "./transcript-timing";
+
+// Types
+export interface KeywordSearchOptions {
+  podcastId?: string;
+  // Whether to search intros, ad reads and outros too
+  includeNonContent?: boolean;
+  limit?: number;
+}
+
+// Text search configuration of the search_vector columns, inlined so Postgres sees a constant
+const SEARCH_CONFIG = sql.raw(`'${FULL_TEXT_SEARCH_CONFIG}'`);
+
+// Matched words are wrapped in ** so snippets render as bold markdown
+const HEADLINE_OPTIONS = "StartSel=**, StopSel=**, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+/**
+ * Parse a search the way web search boxes do: quoted phrases, "or" and -excluded words
+ */
+function toTsQuery(query: string) {
+  return sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query})`;
+}
+
+/**
+ * Find transcript chunks containing the words of a search, best matches first
+ * @param query Search text, e.g. "negative splits" or tempo -treadmill
+ * @param options Show filter, whether to include non-content chunks and how many to return
+ * @returns Chunks with their rank, a highlighted snippet and their episode
+ */
+export async function searchTranscriptChunks(
+  query: string,
+  { podcastId, includeNonContent = false, limit = KEYWORD_SEARCH_LIMIT }: KeywordSearchOptions = {}
+) {
+  const tsQuery = toTsQuery(query);
+  const rank = sql<number>`ts_rank(${embeddings.searchVector}, ${tsQuery})`;
+
+  const matches = await db
+    .select({
+      id: embeddings.id,
+      content: embeddings.content,
+      resourceId: embeddings.resourceId,
+      chunkIndex: embeddings.chunkIndex,
+      startSeconds: embeddings.startSeconds,
+      endSeconds: embeddings.endSeconds,
+      segmentType: embeddings.segmentType,
+      rank,
+      headline: sql<string>`ts_headline(${SEARCH_CONFIG}, ${embeddings.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      // Resource information for citation, as semantic search returns it
+      resourceTitle: resources.title,
+      episodeNumber: resources.episodeNumber,
+      guests: resources.guests,
+      link: resources.link,
+      podcastName: podcasts.name,
+    })
+    .from(embeddings)
+    .innerJoin(resources, eq(embeddings.resourceId, resources.id))
+    .leftJoin(podcasts, eq(resources.podcastId, podcasts.id))
+    .where(and(
+      sql`${embeddings.searchVector} @@ ${tsQuery}`,
+      podcastId ? eq(resources.podcastId, podcastId) : undefined,
+      includeNonContent ? undefined : eq(embeddings.segmentType, "content")
+    ))
+    .orderBy(desc(rank), desc(resources.pubDate), asc(embeddings.chunkIndex))
+    .limit(limit);
+
+  return matches.map((match) => ({
+    ...match,
+    timestamp: match.startSeconds !== null ? formatTimestamp(match.startSeconds) : null,
+  }));
+}
+
+/**
+ * Find episodes whose title or summary contain the words of a search. Title
+ * matches rank above summary matches.
+ * @param query Search text
+ * @param options Show filter and how many to return
+ * @returns Episodes with their rank and a highlighted summary snippet, best first
+ */
+export async function searchEpisodesByKeyword(
+  query: string,
+  { podcastId, limit = KEYWORD_SEARCH_LIMIT }: Omit<KeywordSearchOptions, "includeNonContent"> = {}
+) {
+  const tsQuery = toTsQuery(query);
+  const rank = sql<number>`ts_rank(${resources.searchVector}, ${tsQuery})`;
+
+  return db
+    .select({
+      id: resources.id,
+      title: resources.title,
+      episodeNumber: resources.episodeNumber,
+      pubDate: resources.pubDate,
+      rank,
+      headline: sql<string>`ts_headline(${SEARCH_CONFIG}, coalesce(${resources.summary}, ''), ${tsQuery}, ${HEADLINE_OPTIONS})`,
+    })
+    .from(resources)
+    .where(and(
+      sql`${resources.searchVector} @@ ${tsQuery}`,
+      podcastId ? eq(resources.podcastId, podcastId) : undefined
+    ))
+    .orderBy(desc(rank), desc(resources.pubDate))
+    .limit(limit);
+}
@@ -0,0 +1,155 @@
+import { IngestionStage, getIngestionStates, isStageComplete, isStageForced } from "./ingestion-state";
+import { IngestionState } from "../db/schema/ingestion-state";
+import { PodcastEpisode } from "./podcast-feed";
+import { listFailingEpisodes, listRecentRuns, listRunFailures } from "./ingest-runs";
+
+const MAX_TITLE_LENGTH = 40;
+const MAX_ERROR_LENGTH = 60;
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function getStageError(state: IngestionState | undefined, stage: IngestionStage): string | null {
+  return (state?.[`${stage}Error` as keyof IngestionState] as string | null | undefined) ?? null;
+}
+
+async function loadStates(episodes: PodcastEpisode[]): Promise<Map<string, IngestionState>> {
+  return getIngestionStates(
+    episodes.map((episode) => episode.resourceId).filter((id): id is string => Boolean(id))
+  );
+}
+
+/**
+ * Print each episode's progress through the given stages:
+ * ✓ complete, ✗ failed, · not run yet
+ * @param episodes Episodes to report on
+ * @param stages Stages to show as columns
+ */
+export async function printStatusTable(
+  episodes: PodcastEpisode[],
+  stages: readonly IngestionStage[]
+): Promise<void> {
+  if (episodes.length === 0) {
+    console.log("No episodes to report.");
+    return;
+  }
+
+  const states = await loadStates(episodes);
+
+  console.table(
+    episodes.map((episode) => {
+      const state = episode.resourceId ? states.get(episode.resourceId) : undefined;
+      const row: Record<string, string> = {
+        episode: episode.episodeNumber,
+        title: truncate(episode.title, MAX_TITLE_LENGTH),
+      };
+      let lastError = "";
+
+      for (const stage of stages) {
+        const error = getStageError(state, stage);
+        row[stage] = isStageComplete(state, stage) ? "✓" : error ? "✗" : "·";
+        if (error) lastError = `${stage}: ${error}`;
+      }
+
+      row.error = truncate(lastError, MAX_ERROR_LENGTH);
+      return row;
+    })
+  );
+}
+
+/**
+ * Print the stages a run would execute for each episode, without running them
+ * @param episodes Episodes selected for the run
+ * @param stages Stages the command runs
+ * @param force Stage forced to rerun, if any
+ */
+export async function printRunPlan(
+  episodes: PodcastEpisode[],
+  stages: readonly IngestionStage[],
+  force?: IngestionStage
+): Promise<void> {
+  if (episodes.length === 0) {
+    console.log("No episodes would be processed.");
+    return;
+  }
+
+  const states = await loadStates(episodes);
+
+  console.table(
+    episodes.map((episode) => {
+      const state = episode.resourceId ? states.get(episode.resourceId) : undefined;
+      const pending = stages.filter(
+        (stage) => isStageForced(stage, force) || !isStageComplete(state, stage)
+      );
+      return {
+        episode: episode.episodeNumber,
+        title: truncate(episode.title, MAX_TITLE_LENGTH),
+        stages: pending.length > 0 ? pending.join(", ") : "(up to date)",
+      };
+    })
+  );
+}
+
+/**
+ * Print the latest pipeline runs, then the failures of the most recent one
+ * @param limit Number of runs to show
+ */
+export async function printRecentRuns(limit = 5): Promise<void> {
+  const runs = await listRecentRuns(limit);
+  if (runs.length === 0) {
+    console.log("No pipeline runs recorded yet.");
+    return;
+  }
+
+  console.log("\nRecent runs:");
+  console.table(
+    runs.map((run) => ({
+      started: run.startedAt.toISOString().slice(0, 16).replace("T", " "),
+      command: truncate([run.command, ...run.args.filter((arg) => arg !== run.command)].join(" "), MAX_TITLE_LENGTH),
+      status: run.status,
+      completed: run.completed,
+      failed: run.failed,
+      costUsd: Number(run.costUsd.toFixed(4)),
+      error: truncate(run.error ?? "", MAX_ERROR_LENGTH),
+    }))
+  );
+
+  const failures = await listRunFailures(runs[0].id);
+  if (failures.length > 0) {
+    console.log("\nFailures in the latest run:");
+    console.table(
+      failures.map((failure) => ({
+        episode: failure.episodeNumber,
+        title: truncate(failure.title ?? "", MAX_TITLE_LENGTH),
+        stage: failure.stage,
+        error: truncate(failure.error ?? "", MAX_ERROR_LENGTH),
+      }))
+    );
+  }
+}
+
+/**
+ * Print every episode of a show with a stage that is currently failing
+ * @param podcastId Show to report on
+ */
+export async function printFailingEpisodes(podcastId: string): Promise<void> {
+  const failing = await listFailingEpisodes(podcastId);
+  if (failing.length === 0) {
+    console.log("No failing episodes.");
+    return;
+  }
+
+  console.log(`${failing.length} failing episode(s):`);
+  console.table(
+    failing.map((episode) => {
+      const [stage, error] = Object.entries(episode.errors)[0] ?? ["", ""];
+      return {
+        episode: episode.episodeNumber,
+        title: truncate(episode.title ?? "", MAX_TITLE_LENGTH),
+        stages: Object.keys(episode.errors).join(", "),
+        error: truncate(`${stage}: ${error}`, MAX_ERROR_LENGTH),
+      };
+    })
+  );
+}
@@ -1,17 +1,32 @@
 import axios from 'axios';
+import { createHash } from 'crypto';
 import { XMLParser } from 'fast-xml-parser';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
-import { MAX_EPISODES, PODCAST_FEED_URL } from './config';
+import { AUDIO_FILES_DIR, DOWNLOAD_CONCURRENCY, MAX_EPISODES } from './config';
+import { Podcast } from '../db/schema/podcasts';
+import { getIngestionStates, markStageComplete, markStageFailed } from './ingestion-state';
+import { downloadAudioFile } from './audio-download';
+import { mapWithConcurrency } from './concurrency';
 
 // Convert fs functions to Promise-based
 const mkdir = promisify(fs.mkdir);
-const access = promisify(fs.access);
-const writeFile = promisify(fs.writeFile);
+
+// Episode types from the feed's itunes:episodeType tag; episodes without one are full episodes
+export const EPISODE_TYPES = ['full', 'bonus', 'trailer'] as const;
+export type EpisodeType = (typeof EPISODE_TYPES)[number];
+
+// Episode numbers in titles like "Episode 521: Rich Ryan", "Ep. 521" or "#521"
+const TITLE_EPISODE_NUMBER = /(?:\bepisode|\bep\.?|#)\s*(\d+)\b/i;
+
+// Longest guid used as a file name as-is; longer ones are shortened with a hash
+const MAX_FILE_STEM_LENGTH = 80;
 
 // Interface for podcast episode metadata
 export interface PodcastEpisode {
+  podcastId: string;
+  resourceId?: string;
   guid: string;
   title: string;
   link: string;
@@ -20,93 +35,181 @@ export interface PodcastEpisode {
   enclosureUrl: string;
   author: string;
   duration: string;
+  // From itunes:episode, else parsed from the title of a full episode; empty when neither has one
   episodeNumber: string;
+  episodeType: EpisodeType;
   localFilePath?: string;
   transcriptPath?: string;
+  timedTranscriptPath?: string;
   summary?: string;
   guests?: string[];
 }
 
+// Result of a conditional feed request
+export type ConditionalFeedResult =
+  | { notModified: true }
+  | { notModified: false; episodes: PodcastEpisode[]; etag: string | null; lastModified: string | null };
+
+/**
+ * Reads an episode's type from its itunes:episodeType tag
+ */
+export function parseEpisodeType(value: unknown): EpisodeType {
+  const type = String(value ?? '').trim().toLowerCase();
+  return (EPISODE_TYPES as readonly string[]).includes(type) ? (type as EpisodeType) : 'full';
+}
+
+/**
+ * Gets an episode's number from its itunes:episode tag, falling back to the
+ * number in the title. Bonus and trailer titles often mention the episode
+ * they accompany, so their titles aren't used.
+ * @param itunesEpisode Value of the itunes:episode tag, if any
+ * @param title Episode title
+ * @param episodeType Episode type
+ * @returns Episode number, or an empty string when there is none
+ */
+export function parseEpisodeNumber(itunesEpisode: unknown, title: string, episodeType: EpisodeType): string {
+  const tagged = String(itunesEpisode ?? '').trim();
+  if (tagged) {
+    return tagged;
+  }
+  if (episodeType !== 'full') {
+    return '';
+  }
+  return title.match(TITLE_EPISODE_NUMBER)?.[1] ?? '';
+}
+
 /**
- * Fetches and parses the podcast RSS feed
+ * Parses the episodes out of a show's RSS feed XML
+ * @param podcast Show the feed belongs to
+ * @param xml Raw feed XML
+ * @returns Episodes sorted by most recent first
+ */
+export function parsePodcastFeed(podcast: Podcast, xml: string): PodcastEpisode[] {
+  // Create parser with XML options
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    allowBooleanAttributes: true
+  });
+  
+  const result = parser.parse(xml);
+  
+  // Extract episodes from the feed
+  const items = Array.isArray(result.rss.channel.item) 
+    ? result.rss.channel.item 
+    : [result.rss.channel.item];
+    
+  const episodes = items.map((item: any) => {
+    // Clean description, removing HTML tags
+    let description = '';
+    if (item.description) {
+      description = item.description.replace(/<[^>]*>/g, '').trim();
+    } else if (item['itunes:summary']) {
+      description = item['itunes:summary'].replace(/<[^>]*>/g, '').trim();
+    }
+    
+    // Episode number from the itunes:episode tag, or else the title
+    const title = String(item.title ?? '');
+    const episodeType = parseEpisodeType(item['itunes:episodeType']);
+    const episodeNumber = parseEpisodeNumber(item['itunes:episode'], title, episodeType);
+    
+    // Extract enclosure URL for the audio file
+    let enclosureUrl = '';
+    if (item.enclosure && item.enclosure['@_url']) {
+      enclosureUrl = item.enclosure['@_url'];
+    }
+
+    // Extract guid 
+    let guid = '';
+    // Handle the object form with #text property (the common case from XML parser)
+    if (item.guid && typeof item.guid === 'object' && item.guid['#text']) {
+      guid = item.guid['#text'];
+    } 
+    // Handle string form
+    else if (typeof item.guid === 'string') {
+      guid = item.guid;
+    }
+    // Fallback to string conversion
+    else if (item.guid) {
+      guid = String(item.guid);
+    }
+    
+    // Extract just the UUID part after podbean.com/
+    if (guid && guid.includes('podbean.com/')) {
+      guid = guid.split('podbean.com/')[1];
+    }
+    
+    return {
+      podcastId: podcast.id,
+      guid,
+      title,
+      link: item.link,
+      pubDate: new Date(item.pubDate),
+      description,
+      enclosureUrl,
+      author: item['itunes:author'] || podcast.hosts.join(' & '),
+      duration: item['itunes:duration'] || '',
+      episodeNumber,
+      episodeType
+    };
+  });
+  
+  // Sort by most recent
+  console.log(`Found ${episodes.length} episodes in the ${podcast.name} feed`);
+  return episodes.sort((a: any, b: any) => b.pubDate.getTime() - a.pubDate.getTime());
+}
+
+/**
+ * Fetches and parses a show's RSS feed
+ * @param podcast Show whose feed to fetch
  * @param maxEpisodes Maximum number of episodes to return (defaults to MAX_EPISODES from config)
  * @param offset Number of episodes to skip (defaults to 0)
  * @returns Array of podcast episodes
  */
-export async function fetchPodcastFeed(maxEpisodes = MAX_EPISODES, offset = 0): Promise<PodcastEpisode[]> {
+export async function fetchPodcastFeed(podcast: Podcast, maxEpisodes = MAX_EPISODES, offset = 0): Promise<PodcastEpisode[]> {
   try {
-    const response = await axios.get(PODCAST_FEED_URL);
-    
-    // Create parser with XML options
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-      allowBooleanAttributes: true
-    });
-    
-    const result = parser.parse(response.data);
+    const response = await axios.get(podcast.feedUrl);
     
-    // Extract episodes from the feed
-    const items = Array.isArray(result.rss.channel.item) 
-      ? result.rss.channel.item 
-      : [result.rss.channel.item];
-      
-    const episodes = items.map((item: any) => {
-      // Clean description, removing HTML tags
-      let description = '';
-      if (item.description) {
-        description = item.description.replace(/<[^>]*>/g, '').trim();
-      } else if (item['itunes:summary']) {
-        description = item['itunes:summary'].replace(/<[^>]*>/g, '').trim();
-      }
-      
-      // Get episode number from itunes:episode tag if available
-      let episodeNumber = item['itunes:episode'] || '';
-      
-      // Extract enclosure URL for the audio file
-      let enclosureUrl = '';
-      if (item.enclosure && item.enclosure['@_url']) {
-        enclosureUrl = item.enclosure['@_url'];
-      }
-
-      // Extract guid 
-      let guid = '';
-      // Handle the object form with #text property (the common case from XML parser)
-      if (item.guid && typeof item.guid === 'object' && item.guid['#text']) {
-        guid = item.guid['#text'];
-      } 
-      // Handle string form
-      else if (typeof item.guid === 'string') {
-        guid = item.guid;
-      }
-      // Fallback to string conversion
-      else if (item.guid) {
-        guid = String(item.guid);
-      }
-      
-      // Extract just the UUID part after podbean.com/
-      if (guid && guid.includes('podbean.com/')) {
-        guid = guid.split('podbean.com/')[1];
-      }
-      
-      return {
-        guid,
-        title: item.title,
-        link: item.link,
-        pubDate: new Date(item.pubDate),
-        description,
-        enclosureUrl,
-        author: item['itunes:author'] || 'Kirk Dewindt & Brakken Kraker',
-        duration: item['itunes:duration'] || '',
-        episodeNumber
-      };
+    // Apply offset and limit to maxEpisodes
+    return parsePodcastFeed(podcast, response.data).slice(offset, offset + maxEpisodes);
+  } catch (error) {
+    console.error('Error fetching podcast feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a show's RSS feed only if it changed since the last sync, using the
+ * ETag and Last-Modified values stored on the podcast
+ * @param podcast Show whose feed to fetch
+ * @returns The parsed episodes and new cache validators, or notModified
+ */
+export async function fetchPodcastFeedIfChanged(podcast: Podcast): Promise<ConditionalFeedResult> {
+  try {
+    const headers: Record<string, string> = {};
+    if (podcast.feedEtag) {
+      headers['If-None-Match'] = podcast.feedEtag;
+    }
+    if (podcast.feedLastModified) {
+      headers['If-Modified-Since'] = podcast.feedLastModified;
+    }
+
+    const response = await axios.get(podcast.feedUrl, {
+      headers,
+      validateStatus: (status) => status === 200 || status === 304,
     });
-    
-    // Sort by most recent, apply offset and limit to maxEpisodes
-    console.log(`Found ${episodes.length} episodes in the feed`);
-    return episodes
-      .sort((a: any, b: any) => b.pubDate.getTime() - a.pubDate.getTime())
-      .slice(offset, offset + maxEpisodes);
+
+    if (response.status === 304) {
+      console.log(`${podcast.name} feed has not changed since the last sync`);
+      return { notModified: true };
+    }
+
+    return {
+      notModified: false,
+      episodes: parsePodcastFeed(podcast, response.data),
+      etag: response.headers['etag'] ?? null,
+      lastModified: response.headers['last-modified'] ?? null,
+    };
   } catch (error) {
     console.error('Error fetching podcast feed:', error);
     throw error;
@@ -114,57 +217,80 @@ export async function fetchPodcastFeed(maxEpisodes = MAX_EPISODES, offset = 0):
 }
 
 /**
- * Downloads podcast audio files from the feed
+ * Gets the base name of an episode's local files. Files are named by guid so
+ * unnumbered and bonus episodes never share them. Guids that aren't safe file
+ * names, or are very long, are cleaned up and given a hash of the full guid.
+ * @param episode Podcast episode
+ * @returns File name without extension
+ */
+export function getEpisodeFileStem(episode: Pick<PodcastEpisode, 'guid' | 'enclosureUrl' | 'title'>): string {
+  const id = episode.guid || episode.enclosureUrl || episode.title;
+  const safe = id.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+  if (safe === id && safe.length <= MAX_FILE_STEM_LENGTH) {
+    return safe;
+  }
+
+  const hash = createHash('sha256').update(id).digest('hex').slice(0, 12);
+  return `${safe.slice(0, MAX_FILE_STEM_LENGTH - hash.length - 1)}-${hash}`.replace(/^-/, '');
+}
+
+/**
+ * Gets the local path an episode's audio file is downloaded to
+ * @param episode Podcast episode
+ * @returns Absolute path of the MP3 file
+ */
+export function getAudioFilePath(episode: PodcastEpisode): string {
+  return path.join(AUDIO_FILES_DIR, `${getEpisodeFileStem(episode)}.mp3`);
+}
+
+/**
+ * Downloads podcast audio files from the feed, streaming several at once
  * @param episodes Array of podcast episodes
  * @returns Array of episodes with localFilePath added
  */
 export async function downloadPodcastEpisodes(episodes: PodcastEpisode[]): Promise<PodcastEpisode[]> {
-  const audioDir = path.join(process.cwd(), 'data', 'audio_files');
-  
   // Ensure audio directory exists
-  await mkdir(audioDir, { recursive: true });
+  await mkdir(AUDIO_FILES_DIR, { recursive: true });
+  
+  // Sizes and checksums recorded by earlier verified downloads
+  const states = await getIngestionStates(
+    episodes.map(episode => episode.resourceId).filter((id): id is string => Boolean(id))
+  );
   
-  const updatedEpisodes: PodcastEpisode[] = [];
+  console.log(`Downloading ${episodes.length} episodes with up to ${DOWNLOAD_CONCURRENCY} at a time`);
   
-  for (let i = 0; i < episodes.length; i++) {
-    const episode = episodes[i];
+  const results = await mapWithConcurrency(episodes, DOWNLOAD_CONCURRENCY, async (episode, i): Promise<PodcastEpisode | null> => {
     if (!episode.enclosureUrl) {
       console.warn(`Episode ${episode.title} has no audio URL, skipping...`);
-      continue;
+      await markStageFailed(episode.resourceId, 'download', 'Episode has no audio URL');
+      return null;
     }
     
     try {
       console.log(`Downloading episode ${i+1}/${episodes.length}: ${episode.episodeNumber}`);
       
-      // Generate filename from episode number
-      const filename = `e${episode.episodeNumber}.mp3`
-      const filePath = path.join(audioDir, filename);
+      // Generate filename from the episode guid
+      const filePath = getAudioFilePath(episode);
+      const state = episode.resourceId ? states.get(episode.resourceId) : undefined;
       
-      // Check if file already exists
-      try {
-        await access(filePath);
-        console.log(`File already exists: ${filename}, skipping download`);
-      } catch {
-        
-        const response = await axios({
-          method: 'get',
-          url: episode.enclosureUrl,
-          responseType: 'arraybuffer'
-        });
-        
-        await writeFile(filePath, response.data);
-        console.log(`Downloaded ${filename}`);
-      }
+      const { bytes, sha256 } = await downloadAudioFile(episode.enclosureUrl, filePath, state);
       
+      await markStageComplete(episode.resourceId, 'download', {
+        audioBytes: bytes,
+        audioSha256: sha256,
+      });
+
       // Add local file path to episode
-      updatedEpisodes.push({
+      return {
         ...episode,
         localFilePath: filePath
-      });
+      };
     } catch (error) {
       console.error(`Error downloading episode ${episode.episodeNumber}:`, error);
+      await markStageFailed(episode.resourceId, 'download', error);
+      return null;
     }
-  }
+  });
   
-  return updatedEpisodes;
-} 
\ No newline at end of file
+  return results.filter((episode): episode is PodcastEpisode => episode !== null);
+}
@@ -0,0 +1,25 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db/index';
+import { Podcast, podcasts } from '../db/schema/podcasts';
+
+/**
+ * List every registered show
+ */
+export async function getPodcasts(): Promise<Podcast[]> {
+  return db.select().from(podcasts).orderBy(asc(podcasts.name));
+}
+
+/**
+ * Look up a show by its slug
+ * @param slug Show slug, e.g. "the-running-public"
+ * @returns The show, or null when no show has that slug
+ */
+export async function getPodcastBySlug(slug: string): Promise<Podcast | null> {
+  const [podcast] = await db
+    .select()
+    .from(podcasts)
+    .where(eq(podcasts.slug, slug))
+    .limit(1);
+
+  return podcast ?? null;
+}
@@ -2,31 +2,57 @@ import { join, basename, extname } from "path";
 import fs from "fs";
 import { promisify } from "util";
 import { exec as execCallback } from "child_process";
-import { transcribeAudio } from "./audio";
-import { openai } from "@ai-sdk/openai";
-import { embedMany } from "ai";
+import { getTranscriptionProvider, TranscriptionResult } from "./transcription";
+import { getEmbeddingProvider } from "./embedding-providers";
 import { db } from "../db/index";
 import { resources } from "../db/schema/resources";
 import { embeddings as embeddingsTable } from "../db/schema/embeddings";
-import { createSemanticChunks } from "./semantic-chunker";
+import { createSemanticChunks, TranscriptChunk } from "./semantic-chunker";
+import { detectSilences, planSplitPoints } from "./audio-silence";
+import { stitchChunkTranscripts } from "./transcript-stitching";
+import { classifyChunks, SegmentType } from "./segment-classification";
 import {
+  Glossary,
+  applyGlossary,
+  applyGlossaryToSegments,
+  createVocabularyPrompt,
+} from "./glossary";
+import {
+  ChunkTiming,
+  TranscriptSegment,
+  getChunkTimings,
+  offsetSegments,
+  segmentsToText,
+} from "./transcript-timing";
+import {
+  AUDIO_FILES_DIR,
   CHUNK_SIZE,
   CHUNKS_DIR,
+  CONTEXTUAL_EMBEDDINGS,
   MAX_DURATION_SECONDS,
   MAX_SIZE_BYTES,
   MAX_SIZE_MB,
   MAX_TRANSCRIPTION_WORKERS,
   OVERLAP_SIZE,
+  SPLIT_OVERLAP_SECONDS,
   TRANSCRIPTS_DIR,
-  SUMMARY_MODEL,
-  MAX_SUMMARY_TOKENS,
 } from "./config";
 import {
   PodcastEpisode,
+  getAudioFilePath,
+  getEpisodeFileStem,
 } from "./podcast-feed";
+import { getIngestionStates, markStageComplete, markStageFailed } from "./ingestion-state";
+import { matchesVerifiedDownload } from "./audio-download";
+import { IngestionState } from "../db/schema/ingestion-state";
 import { eq, and } from "drizzle-orm";
-import { OpenAI } from "openai";
-import { createSummaryPrompt } from "../prompts/podcast-summarization";
+import { summarizeTranscript } from "./summarization";
+import { generateChapters, saveChapters } from "./chapters";
+import { setEpisodeGuests } from "./guests";
+import { UsageContext } from "./usage";
+import { shouldAbortRun } from "./provider-client";
+import { countForRun } from "./ingest-runs";
+import { contextualizeChunk, generateChunkContexts, getChunkContextSource } from "./chunk-context";
 
 // Convert callback-based functions to Promise-based
 const exec = promisify(execCallback);
@@ -36,12 +62,18 @@ const stat = promisify(fs.stat);
 const readFile = promisify(fs.readFile);
 const writeFile = promisify(fs.writeFile);
 
-function getEmbeddingModel() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is required");
-  }
+const fileExists = (filePath: string) =>
+  fs.promises.access(filePath).then(
+    () => true,
+    () => false
+  );
 
-  return openai.embedding("text-embedding-3-small");
+// An audio file piece and where it starts within the full episode
+export interface AudioChunk {
+  path: string;
+  startSeconds: number;
+  // Length of the piece; unknown when the file is sent whole without splitting
+  durationSeconds?: number;
 }
 
 export async function checkDependencies(): Promise<boolean> {
@@ -93,7 +125,7 @@ export async function getAudioDuration(filePath: string): Promise<number> {
   }
 }
 
-export async function splitAudioFile(filePath: string): Promise<string[]> {
+export async function splitAudioFile(filePath: string): Promise<AudioChunk[]> {
   const fileSize = await getFileSize(filePath);
   const duration = await getAudioDuration(filePath);
 
@@ -108,7 +140,7 @@ export async function splitAudioFile(filePath: string): Promise<string[]> {
     // Still copy to chunks dir for consistent processing
     const outputPath = join(CHUNKS_DIR, basename(filePath));
     await fs.promises.copyFile(filePath, outputPath);
-    return [outputPath];
+    return [{ path: outputPath, startSeconds: 0, durationSeconds: duration }];
   }
 
   console.log(
@@ -120,36 +152,146 @@ export async function splitAudioFile(filePath: string): Promise<string[]> {
   const fileExt = extname(filePath);
   const fileName = basename(filePath, fileExt);
 
-  // Calculate number of chunks needed based on both size and duration constraints
-  const numChunksBySize = Math.ceil(fileSize / MAX_SIZE_BYTES);
-  const numChunksByDuration = Math.ceil(duration / MAX_DURATION_SECONDS);
-  const numChunks = Math.max(numChunksBySize, numChunksByDuration);
+  // Longest piece that fits both limits, with headroom for variable bitrates
+  const bytesPerSecond = fileSize / duration;
+  const maxPieceSeconds = Math.min(
+    MAX_DURATION_SECONDS,
+    (MAX_SIZE_BYTES / bytesPerSecond) * 0.95
+  );
 
-  // Duration of each chunk
-  const chunkDuration = Math.min(duration / numChunks, MAX_DURATION_SECONDS);
+  // Cut inside pauses so no piece starts or ends mid-word
+  const silences = await detectSilences(filePath);
+  const starts = planSplitPoints(duration, maxPieceSeconds, silences);
 
   console.log(
-    `File duration: ${duration.toFixed(
-      2
-    )}s, dividing into ${numChunks} chunks of ~${chunkDuration.toFixed(
-      2
-    )}s each`
+    `File duration: ${duration.toFixed(2)}s, dividing into ${
+      starts.length
+    } chunks at silences (${silences.length} found) with ${SPLIT_OVERLAP_SECONDS}s overlap`
   );
 
-  const chunkPaths: string[] = [];
+  const audioChunks: AudioChunk[] = [];
 
   // Create each chunk
-  for (let i = 0; i < numChunks; i++) {
-    const startTime = i * chunkDuration;
+  for (let i = 0; i < starts.length; i++) {
+    const startTime = starts[i];
+    // Every piece but the last runs into the next one; stitchChunkTranscripts drops the repeat
+    const endTime =
+      i + 1 < starts.length
+        ? Math.min(starts[i + 1] + SPLIT_OVERLAP_SECONDS, duration)
+        : duration;
     const outputPath = join(CHUNKS_DIR, `${fileName}_chunk${i + 1}${fileExt}`);
 
     // Use ffmpeg to split the audio
-    const ffmpegCmd = `ffmpeg -y -i "${filePath}" -ss ${startTime} -t ${chunkDuration} -reset_timestamps 1 -c copy "${outputPath}"`;
+    const ffmpegCmd = `ffmpeg -y -ss ${startTime.toFixed(3)} -i "${filePath}" -t ${(endTime - startTime).toFixed(3)} -reset_timestamps 1 -c copy "${outputPath}"`;
     await exec(ffmpegCmd);
-    chunkPaths.push(outputPath);
+    audioChunks.push({ path: outputPath, startSeconds: startTime, durationSeconds: endTime - startTime });
   }
 
-  return chunkPaths;
+  return audioChunks;
+}
+
+export function getTranscriptPath(episode: PodcastEpisode): string {
+  return join(TRANSCRIPTS_DIR, `${getEpisodeFileStem(episode)}_transcript.json`);
+}
+
+export function getTimedTranscriptPath(episode: PodcastEpisode): string {
+  return join(TRANSCRIPTS_DIR, `${getEpisodeFileStem(episode)}_timed_transcript.json`);
+}
+
+/**
+ * Files used to be named after the episode number (e521.mp3), which every
+ * unnumbered episode shared as e.mp3. Moves an episode's old files to their
+ * guid-based names, taking only copies that provably belong to the episode:
+ * transcripts record its guid and audio must match its verified download.
+ * @param episode Podcast episode
+ * @param state Ingestion state with the checksum of the verified download
+ */
+async function adoptLegacyFiles(
+  episode: PodcastEpisode,
+  state?: IngestionState
+): Promise<void> {
+  const isEpisodeTranscript = async (filePath: string) => {
+    try {
+      return JSON.parse(await readFile(filePath, "utf-8")).guid === episode.guid;
+    } catch {
+      return false;
+    }
+  };
+
+  const legacyStems = [...new Set([`e${episode.episodeNumber}`, "e"])];
+  const candidates = [
+    {
+      target: getAudioFilePath(episode),
+      dir: AUDIO_FILES_DIR,
+      suffix: ".mp3",
+      belongs: (filePath: string) => matchesVerifiedDownload(filePath, state),
+    },
+    {
+      target: getTranscriptPath(episode),
+      dir: TRANSCRIPTS_DIR,
+      suffix: "_transcript.json",
+      belongs: isEpisodeTranscript,
+    },
+    {
+      target: getTimedTranscriptPath(episode),
+      dir: TRANSCRIPTS_DIR,
+      suffix: "_timed_transcript.json",
+      belongs: isEpisodeTranscript,
+    },
+  ];
+
+  for (const { target, dir, suffix, belongs } of candidates) {
+    if (await fileExists(target)) continue;
+
+    for (const stem of legacyStems) {
+      const legacyPath = join(dir, `${stem}${suffix}`);
+      if (legacyPath !== target && (await fileExists(legacyPath)) && (await belongs(legacyPath))) {
+        await fs.promises.rename(legacyPath, target);
+        console.log(`Renamed ${basename(legacyPath)} to ${basename(target)}`);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Attaches audio and transcript paths produced by earlier runs, so stages
+ * that are skipped on resume still hand their output to later stages
+ * @param episodes Array of podcast episodes
+ * @returns Episodes with existing artifact paths filled in
+ */
+export async function attachExistingArtifacts(
+  episodes: PodcastEpisode[]
+): Promise<PodcastEpisode[]> {
+
+  const states = await getIngestionStates(
+    episodes.map((episode) => episode.resourceId).filter((id): id is string => Boolean(id))
+  );
+
+  return Promise.all(
+    episodes.map(async (episode) => {
+      await adoptLegacyFiles(episode, episode.resourceId ? states.get(episode.resourceId) : undefined);
+
+      const audioPath = getAudioFilePath(episode);
+      const transcriptPath = getTranscriptPath(episode);
+      const timedTranscriptPath = getTimedTranscriptPath(episode);
+
+      return {
+        ...episode,
+        localFilePath:
+          episode.localFilePath ??
+          ((await fileExists(audioPath)) ? audioPath : undefined),
+        transcriptPath:
+          episode.transcriptPath ??
+          ((await fileExists(transcriptPath)) ? transcriptPath : undefined),
+        timedTranscriptPath:
+          episode.timedTranscriptPath ??
+          ((await fileExists(timedTranscriptPath))
+            ? timedTranscriptPath
+            : undefined),
+      };
+    })
+  );
 }
 
 export async function saveCombinedTranscript(
@@ -157,8 +299,7 @@ export async function saveCombinedTranscript(
   combinedTranscript: string
 ): Promise<string> {
   // Create filename without chunk number
-  const fileName = `e${episode.episodeNumber}_transcript.json`;
-  const transcriptPath = join(TRANSCRIPTS_DIR, fileName);
+  const transcriptPath = getTranscriptPath(episode);
 
   // Build a structured transcript
   const structuredTranscript = {
@@ -177,94 +318,166 @@ export async function saveCombinedTranscript(
   return transcriptPath;
 }
 
+export async function saveTimedTranscript(
+  episode: PodcastEpisode,
+  segments: TranscriptSegment[]
+): Promise<string> {
+  const timedTranscriptPath = getTimedTranscriptPath(episode);
+
+  // Segment timestamps are seconds from the start of the episode
+  const timedTranscript = {
+    guid: episode.guid,
+    title: episode.title,
+    segments,
+  };
+
+  await writeFile(
+    timedTranscriptPath,
+    JSON.stringify(timedTranscript, null, 2),
+    "utf-8"
+  );
+  console.log(`Timed transcript saved to ${timedTranscriptPath}`);
+
+  return timedTranscriptPath;
+}
+
+/**
+ * Reads the segments of a timed transcript, if the episode has one
+ * @param episode Podcast episode
+ * @returns Segments, or null for episodes transcribed without timestamps
+ */
+export async function loadTimedTranscript(
+  episode: PodcastEpisode
+): Promise<TranscriptSegment[] | null> {
+  const timedTranscriptPath =
+    episode.timedTranscriptPath ?? getTimedTranscriptPath(episode);
+
+  try {
+    const timedTranscriptJson = await readFile(timedTranscriptPath, "utf-8");
+    const segments = JSON.parse(timedTranscriptJson).segments;
+    return Array.isArray(segments) && segments.length > 0 ? segments : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function createTranscripts(
-  episodes: PodcastEpisode[]
+  episodes: PodcastEpisode[],
+  glossary?: Glossary
 ): Promise<PodcastEpisode[]> {
+  const provider = getTranscriptionProvider();
+  const vocabularyPrompt = glossary ? createVocabularyPrompt(glossary) : undefined;
+
   for (const episode of episodes) {
-    if (!episode.localFilePath) {
+    if (provider.requiresAudio && !episode.localFilePath) {
       console.warn(
         `No local file path for episode: ${episode.episodeNumber}, skipping.`
       );
+      await markStageFailed(episode.resourceId, "transcribe", "Audio file not downloaded");
       continue;
     }
+    const audioFilePath = episode.localFilePath ?? getAudioFilePath(episode);
     
     console.log(`\nProcessing episode: ${episode.episodeNumber}`);
 
-    // Step 1: Split into chunks if needed
-    const chunks = await splitAudioFile(episode.localFilePath);
+    // Step 1: Split into chunks if the backend has upload limits
+    const chunks: AudioChunk[] = provider.requiresChunking
+      ? await splitAudioFile(audioFilePath)
+      : [{ path: audioFilePath, startSeconds: 0 }];
 
     // We'll store the transcripts directly in memory
-    let allTranscriptText = "";
+    const chunkResults: TranscriptionResult[] = [];
+    const failedChunks: string[] = [];
+    let chunkError: unknown;
 
     // Step 2: Transcribe chunks in parallel with worker limits
-    console.log(`\nStarting parallel transcription with up to ${MAX_TRANSCRIPTION_WORKERS} workers`);
+    console.log(`\nStarting parallel transcription with up to ${MAX_TRANSCRIPTION_WORKERS} workers using ${provider.name}`);
     
     // Process chunks in batches to limit concurrency
     for (let i = 0; i < chunks.length; i += MAX_TRANSCRIPTION_WORKERS) {
       const currentBatch = chunks.slice(i, i + MAX_TRANSCRIPTION_WORKERS);
       console.log(`Processing batch of ${currentBatch.length} chunks (${i+1} to ${Math.min(i+MAX_TRANSCRIPTION_WORKERS, chunks.length)} of ${chunks.length})`);
       
-      // Run transcriptions for current batch in parallel
-      const transcriptionPromises = currentBatch.map(async (chunkPath) => {
-        try {
-          // Transcribe the audio chunk
-          const transcript = await transcribeAudio(chunkPath, {
+      // Run transcriptions for current batch in parallel. Provider calls retry
+      // transient failures themselves, so a chunk that still fails fails the episode.
+      const results = await Promise.allSettled(
+        currentBatch.map(async (chunk) => {
+          const result = await provider.transcribe({
+            audioFilePath: chunk.path,
+            episode,
             temperature: 0.2,
-            responseFormat: "json",
+            prompt: vocabularyPrompt,
+            audioSeconds: chunk.durationSeconds,
           });
 
-          // Extract text from transcript JSON
-          try {
-            const parsedTranscript = JSON.parse(transcript);
-            let transcriptText: string;
-
-            if (typeof parsedTranscript === "string") {
-              transcriptText = parsedTranscript;
-            } else if (parsedTranscript.transcript) {
-              transcriptText = parsedTranscript.transcript;
-            } else if (parsedTranscript.text) {
-              transcriptText = parsedTranscript.text;
-            } else {
-              console.warn(
-                `Couldn't extract text from transcript for ${chunkPath}`
-              );
-              return { chunkPath, text: "" };
-            }
-
-            return { chunkPath, text: transcriptText };
-          } catch (error) {
-            console.error(`Error parsing transcript for ${chunkPath}:`, error);
-            return { chunkPath, text: "" };
-          }
-        } catch (error) {
-          console.error(`Error transcribing chunk ${chunkPath}:`, error);
-          return { chunkPath, text: "" };
-        }
-      });
+          // Shift segments by the chunk's offset within the episode
+          return {
+            text: result.text.trim(),
+            segments: offsetSegments(result.segments, chunk.startSeconds),
+          };
+        })
+      );
 
-      // Wait for all transcriptions in this batch to complete
-      const results = await Promise.all(transcriptionPromises);
-      
-      // Combine the results in order
-      for (const result of results) {
-        if (result.text) {
-          allTranscriptText += (allTranscriptText ? " " : "") + result.text;
+      results.forEach((result, j) => {
+        if (result.status === "fulfilled") {
+          chunkResults.push(result.value);
+        } else {
+          console.error(`Error transcribing chunk ${currentBatch[j].path}:`, result.reason);
+          failedChunks.push(basename(currentBatch[j].path));
+          chunkError ??= result.reason;
         }
-      }
+      });
       
       console.log(`Completed batch of ${currentBatch.length} chunks`);
+
+      if (failedChunks.length > 0) {
+        break;
+      }
     }
 
-    // Step 3: Save combined transcript only
+    // Never save a transcript with missing pieces
+    if (failedChunks.length > 0) {
+      if (shouldAbortRun(chunkError)) throw chunkError;
+      await markStageFailed(
+        episode.resourceId,
+        "transcribe",
+        `Failed to transcribe ${failedChunks.length} of ${chunks.length} chunks (${failedChunks.join(", ")}): ${
+          chunkError instanceof Error ? chunkError.message : String(chunkError)
+        }`
+      );
+      continue;
+    }
+
+    // Step 3: Save combined transcript, plus the timed one when every chunk has timing.
+    // Chunks overlap, so the text they share is only kept once.
+    const { text: allTranscriptText, segments: allSegments } = stitchChunkTranscripts(
+      chunkResults,
+      chunks.map((chunk) => chunk.startSeconds)
+    );
+    const isTimed = allSegments.length > 0;
+
     if (allTranscriptText) {
       episode.transcriptPath = await saveCombinedTranscript(
         episode,
         allTranscriptText
       );
+      if (isTimed) {
+        episode.timedTranscriptPath = await saveTimedTranscript(
+          episode,
+          allSegments
+        );
+      } else {
+        // Drop any timed transcript left by an earlier run so it isn't used with this text
+        await fs.promises.rm(getTimedTranscriptPath(episode), { force: true });
+        episode.timedTranscriptPath = undefined;
+        console.warn(`No segment timing available for ${episode.title}, saved untimed transcript only`);
+      }
+      await markStageComplete(episode.resourceId, "transcribe");
     } else {
       console.error(
         `Failed to generate any valid transcript content for ${episode.title}`
       );
+      await markStageFailed(episode.resourceId, "transcribe", "No transcript content generated");
     }
 
     console.log(`Completed processing ${episode.title}`);
@@ -275,19 +488,23 @@ export async function createTranscripts(
 // This function creates resources for each episode
 export async function createResources(
   episodes: PodcastEpisode[]
-): Promise<void> {
-  if (episodes && episodes.length > 0) {
-    for (const episode of episodes) {
-      // Check if resource already exists using guid
-      const existingResources = await db
-        .select()
-        .from(resources)
-        .where(and(eq(resources.guid, episode.guid)))
-        .limit(1);
+): Promise<PodcastEpisode[]> {
+  const episodesWithResources: PodcastEpisode[] = [];
 
-      if (existingResources.length === 0) {
-        // Insert resource with comprehensive metadata
-        await db.insert(resources).values({
+  for (const episode of episodes) {
+    // Check if resource already exists using guid
+    const existingResources = await db
+      .select()
+      .from(resources)
+      .where(and(eq(resources.guid, episode.guid)))
+      .limit(1);
+
+    if (existingResources.length === 0) {
+      // Insert resource with comprehensive metadata
+      const [insertedResource] = await db
+        .insert(resources)
+        .values({
+          podcastId: episode.podcastId,
           guid: episode.guid,
           title: episode.title,
           link: episode.link,
@@ -297,25 +514,32 @@ export async function createResources(
           author: episode.author,
           duration: episode.duration,
           episodeNumber: episode.episodeNumber,
-        });
+          episodeType: episode.episodeType,
+        })
+        .returning({ id: resources.id });
 
-        console.log(`Added resource for: e${episode.episodeNumber}`);
-      } else {
-        console.log(`Resource already exists for: e${episode.episodeNumber}`);
-      }
+      console.log(`Added resource for: e${episode.episodeNumber}`);
+      episodesWithResources.push({ ...episode, resourceId: insertedResource.id });
+    } else {
+      console.log(`Resource already exists for: e${episode.episodeNumber}`);
+      episodesWithResources.push({ ...episode, resourceId: existingResources[0].id });
     }
   }
+
+  return episodesWithResources;
 }
 
 /**
  * Generates embeddings for all transcripts
  * @param downloadedEpisodes Optional array of downloaded episodes with metadata
+ * @param glossary Show glossary used to correct names and jargon before chunking
  */
 export async function generateEmbeddingsForEpisodes(
-  episodes: PodcastEpisode[]
+  episodes: PodcastEpisode[],
+  glossary?: Glossary
 ): Promise<void> {
   try {
-    const embeddingModel = getEmbeddingModel();
+    const embeddingProvider = getEmbeddingProvider();
 
     // Process each episode
     for (const episode of episodes) {
@@ -334,68 +558,132 @@ export async function generateEmbeddingsForEpisodes(
         console.log(`Using existing resource: ${resourceResult.id} for episode ${episode.episodeNumber}`);
       } else {
         console.error(`No existing resource found for episode ${episode.title}`);
+        await markStageFailed(episode.resourceId, "embed", "Resource not found");
         continue;
       }
+      const usage: UsageContext = { step: "embed", resourceId: resourceResult.id };
 
       // Create semantic chunks from the episode transcript
-      let chunks: string[] = [];
+      let chunks: TranscriptChunk[] = [];
+      let chunkTexts: string[] = [];
+      let chunkTimings: ChunkTiming[] = [];
+      let chunkTypes: SegmentType[] = [];
       if (episode.transcriptPath) {
-        const transcriptJson = await readFile(episode.transcriptPath, "utf-8");
-        const transcriptText = JSON.parse(transcriptJson).transcript;
+        const rawSegments = await loadTimedTranscript(episode);
+        const segments = rawSegments && glossary
+          ? applyGlossaryToSegments(rawSegments, glossary)
+          : rawSegments;
+
+        // Prefer the timed transcript so chunks can be located in time
+        let transcriptText: string;
+        if (segments) {
+          transcriptText = segmentsToText(segments);
+        } else {
+          const transcriptJson = await readFile(episode.transcriptPath, "utf-8");
+          transcriptText = JSON.parse(transcriptJson).transcript;
+          if (glossary) {
+            transcriptText = applyGlossary(transcriptText, glossary);
+          }
+        }
         
         chunks = await createSemanticChunks(
           transcriptText,
           CHUNK_SIZE,
           OVERLAP_SIZE
         );
+
+        chunkTexts = chunks.map((chunk) => chunk.content);
+
+        if (chunks.length === 0) {
+          console.error(`Transcript for episode ${episode.episodeNumber} produced no chunks`);
+          await markStageFailed(resourceResult.id, "embed", "Transcript produced no chunks");
+          continue;
+        }
+
+        chunkTimings = segments
+          ? getChunkTimings(chunkTexts, segments)
+          : chunks.map(() => ({ startSeconds: null, endSeconds: null }));
+
+        // Tag intros, ad reads and outros so search can leave them out
+        try {
+          chunkTypes = await classifyChunks(episode.title, chunkTexts, usage);
+          const nonContentCount = chunkTypes.filter((type) => type !== "content").length;
+          console.log(`Classified ${nonContentCount} of ${chunks.length} chunks as intro, ad or outro`);
+        } catch (error) {
+          if (shouldAbortRun(error)) throw error;
+          console.warn(`Could not classify chunks for episode ${episode.episodeNumber}, storing all as content:`, error);
+          chunkTypes = chunks.map(() => "content");
+        }
       } else {
         console.error(`No transcript found for episode ${episode.episodeNumber}`);
+        await markStageFailed(resourceResult.id, "embed", "Transcript not found");
         continue;
       }
 
       try {
+        // Situate each chunk in its episode so fragments embed with their topic
+        let chunkContexts: (string | null)[] = chunks.map(() => null);
+        const contextSource = CONTEXTUAL_EMBEDDINGS ? await getChunkContextSource(resourceResult.id) : null;
+        if (contextSource) {
+          chunkContexts = await generateChunkContexts(
+            contextSource,
+            chunks.map((chunk, i) => ({ content: chunk.content, startSeconds: chunkTimings[i].startSeconds })),
+            usage
+          );
+          const contextCount = chunkContexts.filter((context) => context !== null).length;
+          console.log(`Wrote context for ${contextCount} of ${chunks.length} chunks`);
+        }
+
         console.log(`Generating embeddings for ${chunks.length} chunks for episode ${episode.episodeNumber}`);
 
         // Generate embeddings for all chunks at once
-        const { embeddings: chunkEmbeddings } = await embedMany({
-          model: embeddingModel,
-          values: chunks,
-        });
+        const chunkEmbeddings = await embeddingProvider.embedMany(
+          chunkTexts.map((text, i) => contextualizeChunk(text, chunkContexts[i])),
+          usage
+        );
 
         console.log(
-          `Successfully generated ${chunkEmbeddings.length} embeddings for episode ${episode.episodeNumber}`
+          `Successfully generated ${chunkEmbeddings.length} ${embeddingProvider.modelName} embeddings for episode ${episode.episodeNumber}`
         );
 
-        // Insert embeddings into database
-        let successCount = 0;
-        let errorCount = 0;
+        // Replace any chunks from a previous run so reruns don't duplicate them
+        await db.transaction(async (tx) => {
+          await tx
+            .delete(embeddingsTable)
+            .where(eq(embeddingsTable.resourceId, resourceResult.id));
 
-        for (let i = 0; i < chunks.length; i++) {
-          const chunk = chunks[i];
-          try {
-
-            // Insert embedding into database
-            await db.insert(embeddingsTable).values({
+          await tx.insert(embeddingsTable).values(
+            chunks.map((chunk, i) => ({
               resourceId: resourceResult.id,
-              content: chunk,
+              content: chunk.content,
+              context: chunkContexts[i],
+              chunkIndex: chunk.index,
+              tokenCount: chunk.tokenCount,
+              charStart: chunk.charStart,
+              charEnd: chunk.charEnd,
               embedding: chunkEmbeddings[i],
-            });
-            console.log(`Successfully stored chunk ${i + 1} for episode ${episode.episodeNumber}`);
-            successCount++;
-          } catch (err) {
-            console.error(`Error storing chunk ${i + 1} for episode ${episode.episodeNumber}:`, err);
-            errorCount++;
-          }
-        }
+              embeddingModel: embeddingProvider.modelName,
+              embeddingDimensions: embeddingProvider.dimensions,
+              startSeconds: chunkTimings[i].startSeconds,
+              endSeconds: chunkTimings[i].endSeconds,
+              segmentType: chunkTypes[i],
+            }))
+          );
+        });
 
+        countForRun("embeddingsInserted", chunks.length);
+        // Replacing the chunks deleted their entity mentions, so extraction has to run again
+        await markStageComplete(resourceResult.id, "embed", { extractedAt: null });
         console.log(
-          `Episode ${episode.episodeNumber} processing complete. Successful: ${successCount}, Errors: ${errorCount}`
+          `Episode ${episode.episodeNumber} processing complete. Stored ${chunks.length} chunks`
         );
       } catch (err) {
+        if (shouldAbortRun(err)) throw err;
         console.error(
           `Error generating embeddings for episode ${episode.episodeNumber}:`,
           err
         );
+        await markStageFailed(resourceResult.id, "embed", err);
       }
     }
   } catch (error) {
@@ -431,59 +719,39 @@ export async function transcriptsExist(
 }
 
 /**
- * Generates summary and guest information for each episode using OpenAI API
+ * Generates summary, guest information and chapters for each episode using OpenAI API
  * @param episodes Array of podcast episodes with transcripts
+ * @param hosts Names of the show's hosts, so they aren't listed as guests
+ * @param glossary Show glossary used to correct names and jargon in the transcript
  * @returns Array of episodes with added summary and guests information
  */
 export async function generateSummaries(
-  episodes: PodcastEpisode[]
+  episodes: PodcastEpisode[],
+  hosts: string[] = [],
+  glossary?: Glossary
 ): Promise<PodcastEpisode[]> {
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-  const embeddingModel = getEmbeddingModel();
+  const embeddingProvider = getEmbeddingProvider();
 
   for (const episode of episodes) {
     if (!episode.transcriptPath) {
       console.warn(
         `No transcript path for episode: ${episode.episodeNumber}, skipping summary generation.`
       );
+      await markStageFailed(episode.resourceId, "summarize", "Transcript not found");
       continue;
     }
 
     console.log(`Generating summary for episode: ${episode.episodeNumber}`);
+    const usage: UsageContext = { step: "summarize", resourceId: episode.resourceId };
 
     try {
       // Read the transcript
       const transcriptJson = await readFile(episode.transcriptPath, "utf-8");
-      const transcript = JSON.parse(transcriptJson).transcript;
-
-      // Create the prompt using our template
-      const prompt = createSummaryPrompt(
-        episode.title, 
-        transcript, 
-        MAX_SUMMARY_TOKENS
-      );
+      const rawTranscript = JSON.parse(transcriptJson).transcript;
+      const transcript = glossary ? applyGlossary(rawTranscript, glossary) : rawTranscript;
 
-      // Use OpenAI to generate summary and identify guests
-      const response = await openai.chat.completions.create({
-        model: SUMMARY_MODEL,
-        messages: [
-          {
-            role: "system",
-            content: "You are a helpful assistant that creates podcast summaries and identifies guests."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      // Safely handle null content
-      const content = response.choices[0].message.content || "{}";
-      const result = JSON.parse(content);
+      // Summarize the whole transcript, section by section when it's long
+      const result = await summarizeTranscript(episode.title, transcript, hosts, usage);
       
       // Update the episode with summary and guests
       episode.summary = result.summary || "";
@@ -491,10 +759,7 @@ export async function generateSummaries(
 
       // Generate embedding for the summary
       console.log(`Generating embedding for summary of episode ${episode.episodeNumber}`);
-      const { embeddings: summaryEmbeddings } = await embedMany({
-        model: embeddingModel,
-        values: [result.summary || ""],
-      });
+      const summaryEmbedding = await embeddingProvider.embed(result.summary || "", usage);
 
       // Update the database with summary, guests, and summary embedding
       await db
@@ -502,13 +767,34 @@ export async function generateSummaries(
         .set({
           summary: result.summary || "",
           guests: JSON.stringify(result.guests || []),
-          summaryEmbedding: summaryEmbeddings[0],
+          summaryEmbedding,
+          summaryEmbeddingModel: embeddingProvider.modelName,
         })
         .where(eq(resources.guid, episode.guid));
 
+      // Link the episode to its guests, merging spellings of known guests
+      if (episode.resourceId) {
+        await setEpisodeGuests(episode.resourceId, result.guests || []);
+      }
+
+      // Split the episode into chapters for show-notes-style navigation
+      if (episode.resourceId) {
+        const rawSegments = await loadTimedTranscript(episode);
+        const segments = rawSegments && glossary
+          ? applyGlossaryToSegments(rawSegments, glossary)
+          : rawSegments;
+        const chapters = await generateChapters(episode.title, transcript, segments, usage);
+        await saveChapters(episode.resourceId, chapters);
+        countForRun("chaptersStored", chapters.length);
+        console.log(`Stored ${chapters.length} chapters for episode ${episode.episodeNumber}`);
+      }
+
+      await markStageComplete(episode.resourceId, "summarize");
       console.log(`Successfully updated DB with summary, guest information, and summary embedding for episode ${episode.episodeNumber}`);
     } catch (error) {
+      if (shouldAbortRun(error)) throw error;
       console.error(`Error generating summary for episode ${episode.episodeNumber}:`, error);
+      await markStageFailed(episode.resourceId, "summarize", error);
     }
   }
 
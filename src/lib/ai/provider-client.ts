@@ -0,0 +1,268 @@
+import { OpenAI } from "openai";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import {
+  COMPLETION_OUTPUT_TOKENS_ESTIMATE,
+  PROVIDER_MAX_CONCURRENCY,
+  PROVIDER_MAX_RETRIES,
+  PROVIDER_RETRY_BASE_DELAY_MS,
+  PROVIDER_RETRY_MAX_DELAY_MS,
+  PROVIDER_TOKENS_PER_MINUTE,
+} from "./config";
+import { BudgetExceededError, UsageContext, withCompletionUsage } from "./usage";
+
+// Types
+// rate_limit and transient failures are retried; the rest fail straight away
+export type ProviderFailureKind = "rate_limit" | "transient" | "quota" | "auth" | "invalid_request";
+
+export interface ProviderCallOptions {
+  // Rough token count of the request, counted against PROVIDER_TOKENS_PER_MINUTE
+  estimatedTokens?: number;
+}
+
+/**
+ * A provider call that failed for good, after any retries
+ */
+export class ProviderCallError extends Error {
+  constructor(
+    readonly label: string,
+    readonly kind: ProviderFailureKind,
+    readonly attempts: number,
+    readonly cause: unknown
+  ) {
+    super(`${label} failed (${kind}) after ${attempts} attempt(s): ${getErrorMessage(cause)}`);
+    this.name = "ProviderCallError";
+  }
+}
+
+const TOKEN_WINDOW_MS = 60_000;
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"];
+
+// Requests in flight and tokens sent in the last minute, shared by every call in this process
+let activeRequests = 0;
+const waitingForSlot: (() => void)[] = [];
+const recentTokens: { time: number; tokens: number }[] = [];
+
+let sharedClient: OpenAI | null = null;
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read a property of an error whose shape isn't known, e.g. error.cause.code
+ */
+function getProperty(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Read response headers given as a Headers object or a plain object, keeping string values
+ */
+function readHeaders(value: unknown): Record<string, string> {
+  if (value instanceof Headers) {
+    return Object.fromEntries(value.entries());
+  }
+  if (typeof value !== "object" || value === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+}
+
+/**
+ * Read the HTTP status and headers from OpenAI SDK and AI SDK errors
+ */
+function getErrorResponse(error: unknown): { status?: number; headers: Record<string, string> } {
+  const status = [getProperty(error, "status"), getProperty(error, "statusCode")].find(
+    (value): value is number => typeof value === "number"
+  );
+  return {
+    status,
+    headers: readHeaders(getProperty(error, "headers") ?? getProperty(error, "responseHeaders")),
+  };
+}
+
+/**
+ * Sort a provider error into a failure kind, so callers know whether to
+ * retry, fail the episode or stop the run
+ */
+export function classifyProviderError(error: unknown): ProviderFailureKind {
+  const { status } = getErrorResponse(error);
+
+  if (status === 429) {
+    // An exhausted account quota also comes back as 429 but won't recover by waiting
+    const code = getProperty(error, "code") ?? getProperty(getProperty(error, "error"), "code");
+    const body = getProperty(error, "responseBody");
+    return code === "insufficient_quota" || (typeof body === "string" && body.includes("insufficient_quota"))
+      ? "quota"
+      : "rate_limit";
+  }
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408 || status === 409 || (status !== undefined && status >= 500)) return "transient";
+  if (status !== undefined && status >= 400) return "invalid_request";
+
+  // No response at all: connection resets, timeouts and DNS failures
+  const code = getProperty(error, "code") ?? getProperty(getProperty(error, "cause"), "code");
+  const name = getProperty(error, "name");
+  if (
+    (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) ||
+    name === "APIConnectionError" ||
+    name === "APIConnectionTimeoutError" ||
+    getProperty(error, "isRetryable") === true ||
+    (error instanceof TypeError && error.message.includes("fetch failed"))
+  ) {
+    return "transient";
+  }
+  return "invalid_request";
+}
+
+/**
+ * Whether an error should stop the whole pipeline run rather than fail one
+ * episode: spending caps, bad credentials and exhausted quota affect every call
+ */
+export function shouldAbortRun(error: unknown): error is Error {
+  return (
+    error instanceof BudgetExceededError ||
+    (error instanceof ProviderCallError && (error.kind === "auth" || error.kind === "quota"))
+  );
+}
+
+/**
+ * How long to wait before the next attempt: the server's Retry-After when it
+ * sends one, otherwise exponential backoff with jitter
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  const { headers } = getErrorResponse(error);
+
+  const retryAfterMs = Number(headers["retry-after-ms"]);
+  if (retryAfterMs > 0) return Math.min(retryAfterMs, PROVIDER_RETRY_MAX_DELAY_MS);
+
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+    if (ms > 0) return Math.min(ms, PROVIDER_RETRY_MAX_DELAY_MS);
+  }
+
+  const backoff = PROVIDER_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(backoff, PROVIDER_RETRY_MAX_DELAY_MS) * (0.5 + Math.random() / 2);
+}
+
+/**
+ * Wait for a free request slot and room in the per-minute token budget
+ */
+async function acquireSlot(estimatedTokens: number): Promise<void> {
+  while (activeRequests >= PROVIDER_MAX_CONCURRENCY) {
+    await new Promise<void>((resolve) => waitingForSlot.push(resolve));
+  }
+  activeRequests++;
+
+  while (true) {
+    const now = Date.now();
+    while (recentTokens.length > 0 && now - recentTokens[0].time >= TOKEN_WINDOW_MS) {
+      recentTokens.shift();
+    }
+
+    const used = recentTokens.reduce((sum, entry) => sum + entry.tokens, 0);
+    // A request bigger than the whole budget goes through once the window is empty
+    if (used + estimatedTokens <= PROVIDER_TOKENS_PER_MINUTE || recentTokens.length === 0) {
+      recentTokens.push({ time: now, tokens: estimatedTokens });
+      return;
+    }
+    await sleep(TOKEN_WINDOW_MS - (now - recentTokens[0].time));
+  }
+}
+
+function releaseSlot(): void {
+  activeRequests--;
+  waitingForSlot.shift()?.();
+}
+
+/**
+ * Make a provider request through the shared rate limiter, retrying rate
+ * limits and transient failures with backoff
+ * @param label Description of the call for logs and errors, e.g. "Summary for episode 521"
+ * @param request Function making the request
+ * @param options Token estimate for rate limiting
+ * @returns The response
+ * @throws ProviderCallError once the call can't succeed
+ */
+export async function callProvider<T>(
+  label: string,
+  request: () => Promise<T>,
+  { estimatedTokens = 0 }: ProviderCallOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    // The slot is held only while the request is in flight, not while waiting to retry
+    await acquireSlot(estimatedTokens);
+    let error: unknown;
+    try {
+      return await request();
+    } catch (caught) {
+      error = caught;
+    } finally {
+      releaseSlot();
+    }
+
+    if (error instanceof BudgetExceededError) throw error;
+
+    const kind = classifyProviderError(error);
+    if ((kind !== "rate_limit" && kind !== "transient") || attempt > PROVIDER_MAX_RETRIES) {
+      throw new ProviderCallError(label, kind, attempt, error);
+    }
+
+    const delay = getRetryDelay(error, attempt);
+    console.warn(`${label}: ${kind} error (${getErrorMessage(error)}), retrying in ${Math.round(delay / 1000)}s`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * OpenAI client shared by the pipeline. Its own retries are off so every
+ * retry goes through callProvider.
+ */
+export function getOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY environment variable is required");
+  }
+
+  sharedClient ??= new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0,
+  });
+  return sharedClient;
+}
+
+/**
+ * Create a chat completion with rate limiting, retries and usage recording
+ * @param label Description of the call for logs and errors
+ * @param params Completion request
+ * @param usage What the request is recorded against
+ * @returns The completion
+ */
+export async function createChatCompletion(
+  label: string,
+  params: ChatCompletionCreateParamsNonStreaming,
+  usage: UsageContext
+): Promise<ChatCompletion> {
+  // About four characters per token
+  const promptLength = params.messages.reduce(
+    (sum, message) => sum + (typeof message.content === "string" ? message.content.length : 0),
+    0
+  );
+
+  const estimatedTokens = Math.ceil(promptLength / 4);
+
+  return withCompletionUsage(
+    usage,
+    {
+      model: params.model,
+      inputTokens: estimatedTokens,
+      outputTokens: params.max_completion_tokens ?? params.max_tokens ?? COMPLETION_OUTPUT_TOKENS_ESTIMATE,
+    },
+    () => callProvider(label, () => getOpenAIClient().chat.completions.create(params), { estimatedTokens })
+  );
+}
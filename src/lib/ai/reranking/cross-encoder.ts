@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { CROSS_ENCODER_BASE_URL, CROSS_ENCODER_MODEL } from '../config';
+import { callProvider } from '../provider-client';
+import { Reranker } from './types';
+
+// Error carrying the HTTP status, so callProvider can tell what to retry
+class RerankEndpointError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`Rerank endpoint returned ${status}: ${body.slice(0, 200)}`);
+    this.name = 'RerankEndpointError';
+  }
+}
+
+// The two common /rerank response shapes: Cohere-style {"results": [{"index",
+// "relevance_score"}]} (vLLM, Infinity, Jina) and text-embeddings-inference's [{"index", "score"}]
+const rerankResultSchema = z.union([
+  z.object({ index: z.number().int().nonnegative(), relevance_score: z.number().finite() })
+    .transform(({ index, relevance_score }) => ({ index, score: relevance_score })),
+  z.object({ index: z.number().int().nonnegative(), score: z.number().finite() }),
+]);
+
+const rerankResponseSchema = z.union([
+  z.array(rerankResultSchema),
+  z.object({ results: z.array(rerankResultSchema) }).transform(({ results }) => results),
+]);
+
+/**
+ * Read the score of every passage from a /rerank response
+ * @throws Error when the response is malformed or leaves passages unscored,
+ * so the search keeps its fused order instead of sorting on bad scores
+ */
+function parseRerankResponse(body: unknown, passageCount: number): number[] {
+  const parsed = rerankResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error(`Unexpected rerank response: ${parsed.error.message}`);
+  }
+
+  const scores: (number | undefined)[] = new Array(passageCount).fill(undefined);
+  for (const { index, score } of parsed.data) {
+    if (index < passageCount) {
+      scores[index] = score;
+    }
+  }
+
+  if (!scores.every((score): score is number => score !== undefined)) {
+    const unscored = scores.filter((score) => score === undefined).length;
+    throw new Error(`Rerank response left ${unscored} of ${passageCount} passages unscored`);
+  }
+  return scores;
+}
+
+/**
+ * Reranker backed by a cross-encoder model served locally behind a /rerank
+ * endpoint at CROSS_ENCODER_BASE_URL, e.g. text-embeddings-inference running an
+ * ONNX build of bge-reranker, or vLLM or Infinity with their OpenAI-compatible servers.
+ * Local models are free, so nothing is recorded as usage.
+ */
+export const crossEncoderReranker: Reranker = {
+  name: 'cross-encoder',
+  async rerank({ query, passages }) {
+    const body = await callProvider(`${CROSS_ENCODER_MODEL} rerank`, async () => {
+      const response = await fetch(`${CROSS_ENCODER_BASE_URL.replace(/\/$/, '')}/rerank`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.CROSS_ENCODER_API_KEY ? { Authorization: `Bearer ${process.env.CROSS_ENCODER_API_KEY}` } : {}),
+        },
+        body: JSON.stringify({
+          model: CROSS_ENCODER_MODEL,
+          query,
+          // "documents" for Cohere-style servers, "texts" for text-embeddings-inference
+          documents: passages,
+          texts: passages,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new RerankEndpointError(response.status, await response.text());
+      }
+      return response.json() as Promise<unknown>;
+    });
+
+    return parseRerankResponse(body, passages.length);
+  },
+};
@@ -0,0 +1,28 @@
+import { RERANKER } from '../config';
+import { crossEncoderReranker } from './cross-encoder';
+import { llmReranker } from './llm';
+import { noopReranker } from './none';
+import { Reranker } from './types';
+
+export * from './types';
+
+const RERANKERS: Record<string, Reranker> = {
+  [noopReranker.name]: noopReranker,
+  [llmReranker.name]: llmReranker,
+  [crossEncoderReranker.name]: crossEncoderReranker,
+};
+
+/**
+ * Get the reranker selected by RERANKER
+ * @param name Reranker name (defaults to the configured reranker)
+ * @returns Reranker
+ */
+export function getReranker(name: string = RERANKER): Reranker {
+  const reranker = RERANKERS[name];
+  if (!reranker) {
+    throw new Error(
+      `Unknown reranker "${name}". Expected one of: ${Object.keys(RERANKERS).join(', ')}`
+    );
+  }
+  return reranker;
+}
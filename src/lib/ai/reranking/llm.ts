@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { RERANK_BATCH_SIZE, RERANK_MODEL } from '../config';
+import { createChatCompletion } from '../provider-client';
+import { createRerankPrompt } from '../../prompts/rerank';
+import { Reranker } from './types';
+
+// Highest score the model is asked to give
+const MAX_SCORE = 10;
+
+// One score of the model's response; malformed entries are dropped
+const passageScoreSchema = z.object({
+  passage: z.number().int(),
+  score: z.number().finite(),
+});
+
+const rerankResponseSchema = z.object({
+  scores: z.array(z.unknown()).catch([]),
+});
+
+/**
+ * Reranker that asks a chat model to score each passage against the question.
+ * Batches are scored in parallel; a passage the model leaves out scores 0.
+ */
+export const llmReranker: Reranker = {
+  name: 'llm',
+  async rerank({ query, passages, usage }) {
+    const scores: number[] = passages.map(() => 0);
+
+    const batches: number[][] = [];
+    for (let start = 0; start < passages.length; start += RERANK_BATCH_SIZE) {
+      batches.push(
+        Array.from({ length: Math.min(RERANK_BATCH_SIZE, passages.length - start) }, (_, i) => start + i)
+      );
+    }
+
+    await Promise.all(batches.map(async (batch) => {
+      const response = await createChatCompletion(`Rerank of ${batch.length} passages`, {
+        model: RERANK_MODEL,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a careful judge of how well podcast passages answer running questions.'
+          },
+          {
+            role: 'user',
+            content: createRerankPrompt(query, batch.map((index) => ({ number: index, content: passages[index] })))
+          }
+        ],
+        response_format: { type: 'json_object' }
+      }, usage);
+
+      // Safely handle null content
+      const result = rerankResponseSchema.safeParse(JSON.parse(response.choices[0].message.content || '{}'));
+
+      for (const entry of result.success ? result.data.scores : []) {
+        const parsed = passageScoreSchema.safeParse(entry);
+        if (parsed.success && batch.includes(parsed.data.passage)) {
+          scores[parsed.data.passage] = Math.min(Math.max(parsed.data.score, 0), MAX_SCORE) / MAX_SCORE;
+        }
+      }
+    }));
+
+    return scores;
+  },
+};
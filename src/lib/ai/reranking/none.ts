@@ -0,0 +1,11 @@
+import { Reranker } from './types';
+
+/**
+ * Reranker that keeps the retrieval order, for when no reranking is wanted
+ */
+export const noopReranker: Reranker = {
+  name: 'none',
+  async rerank() {
+    return null;
+  },
+};
@@ -0,0 +1,15 @@
+import { UsageContext } from '../usage';
+
+// Types
+export interface RerankRequest {
+  query: string;
+  // Passage texts in retrieval order
+  passages: string[];
+  usage: UsageContext;
+}
+
+export interface Reranker {
+  name: string;
+  // One relevance score per passage, higher is more relevant. Null keeps the retrieval order.
+  rerank(request: RerankRequest): Promise<number[] | null>;
+}
@@ -0,0 +1,57 @@
+import { SEGMENT_CLASSIFICATION_MODEL } from "./config";
+import { createChatCompletion } from "./provider-client";
+import { UsageContext } from "./usage";
+import { createSegmentClassificationPrompt } from "../prompts/segment-classification";
+
+// Kinds of transcript material. Only "content" is searched unless asked otherwise.
+export const SEGMENT_TYPES = ["intro", "ad", "outro", "content"] as const;
+export type SegmentType = (typeof SEGMENT_TYPES)[number];
+
+// Labels the model is asked for; anything it doesn't label is content
+const NON_CONTENT_TYPES = ["intro", "ad", "outro"] as const;
+
+/**
+ * Classify each chunk of an episode as intro, ad read, outro or content
+ * @param episodeTitle The title of the episode
+ * @param chunks Transcript chunks in playback order
+ * @param usage What the request is recorded against
+ * @returns One segment type per chunk
+ */
+export async function classifyChunks(
+  episodeTitle: string,
+  chunks: string[],
+  usage: UsageContext = { step: "embed" }
+): Promise<SegmentType[]> {
+  const response = await createChatCompletion(`Segment classification of "${episodeTitle}"`, {
+    model: SEGMENT_CLASSIFICATION_MODEL,
+    messages: [
+      {
+        role: "system",
+        content: "You are a helpful assistant that separates podcast conversations from intros, ad reads and outros."
+      },
+      {
+        role: "user",
+        content: createSegmentClassificationPrompt(episodeTitle, chunks)
+      }
+    ],
+    response_format: { type: "json_object" }
+  }, usage);
+
+  // Safely handle null content
+  const result = JSON.parse(response.choices[0].message.content || "{}");
+  const types: SegmentType[] = chunks.map(() => "content");
+
+  for (const type of NON_CONTENT_TYPES) {
+    const indexes: unknown = result[type];
+    if (!Array.isArray(indexes)) {
+      continue;
+    }
+    for (const index of indexes) {
+      if (Number.isInteger(index) && index >= 0 && index < chunks.length) {
+        types[index] = type;
+      }
+    }
+  }
+
+  return types;
+}
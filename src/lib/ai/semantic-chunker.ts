@@ -2,18 +2,30 @@ import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { encode } from 'gpt-tokenizer';
 import { CHUNK_SIZE, OVERLAP_SIZE } from './config';
 
+// Types
+export interface TranscriptChunk {
+  content: string;
+  // Position of the chunk within the episode, starting at 0
+  index: number;
+  tokenCount: number;
+  // Character offsets into the transcript text, end exclusive. Null if the
+  // cleaned chunk can't be found in the text verbatim.
+  charStart: number | null;
+  charEnd: number | null;
+}
+
 /**
  * Create semantic chunks from a complete transcript
  * @param text Full transcript text
  * @param chunkSize Size of each chunk in tokens
  * @param overlapSize Size of overlap between chunks in tokens
- * @returns Array of text chunks with semantic boundaries
+ * @returns Chunks in transcript order with their token counts and character offsets
  */
 export async function createSemanticChunks(
   text: string, 
   chunkSize: number = CHUNK_SIZE, 
   overlapSize: number = OVERLAP_SIZE
-): Promise<string[]> {
+): Promise<TranscriptChunk[]> {
   // Create a text splitter that better respects semantic boundaries
   const textSplitter = new RecursiveCharacterTextSplitter({
     chunkSize: chunkSize,
@@ -39,7 +51,23 @@ export async function createSemanticChunks(
     cleaned = cleaned.replace(/^([.!?,;:])+/, '');
     
     return cleaned;
-  });
+  }).filter(Boolean);
   
-  return cleanedChunks;
+  // Locate each chunk in the transcript. Chunks overlap, so each search starts
+  // just after the previous chunk's start.
+  let searchFrom = 0;
+  return cleanedChunks.map((content, index) => {
+    const charStart = text.indexOf(content, searchFrom);
+    if (charStart >= 0) {
+      searchFrom = charStart + 1;
+    }
+
+    return {
+      content,
+      index,
+      tokenCount: encode(content).length,
+      charStart: charStart >= 0 ? charStart : null,
+      charEnd: charStart >= 0 ? charStart + content.length : null,
+    };
+  });
 } 
\ No newline at end of file
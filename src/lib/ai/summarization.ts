@@ -0,0 +1,137 @@
+import { z } from "zod";
+import {
+  SUMMARY_MODEL,
+  SUMMARY_SECTION_CONCURRENCY,
+  SUMMARY_SECTION_LENGTH,
+} from "./config";
+import { mapWithConcurrency } from "./concurrency";
+import { createChatCompletion } from "./provider-client";
+import { UsageContext } from "./usage";
+import {
+  createCombineSummariesPrompt,
+  createSectionSummaryPrompt,
+  createSummaryPrompt,
+} from "../prompts/podcast-summarization";
+
+// Types
+export interface EpisodeSummary {
+  summary: string;
+  guests: string[];
+}
+
+const SYSTEM_PROMPT = "You are a helpful assistant that creates podcast summaries and identifies guests.";
+
+const summaryResponseSchema = z.object({
+  summary: z.string().trim().min(1),
+  guests: z.array(z.string().trim().min(1)),
+});
+
+/**
+ * Split a transcript into sections of at most maxLength characters, ending
+ * each section at a sentence boundary where possible
+ * @param transcript The transcript text
+ * @param maxLength Maximum characters per section
+ * @returns Sections in transcript order
+ */
+export function splitIntoSections(transcript: string, maxLength: number): string[] {
+  const sections: string[] = [];
+  let current = "";
+
+  for (const sentence of transcript.split(/(?<=[.!?])\s+/)) {
+    // A single sentence longer than a section (e.g. unpunctuated text) is cut as is
+    for (let i = 0; i < sentence.length; i += maxLength) {
+      const piece = sentence.slice(i, i + maxLength);
+      if (current && current.length + piece.length + 1 > maxLength) {
+        sections.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+
+  if (current) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Ask the model for a JSON summary and guest list
+ * @throws Error when the response has no summary or a malformed guest list, so the stage fails and reruns
+ */
+async function requestSummary(label: string, prompt: string, usage: UsageContext): Promise<EpisodeSummary> {
+  const response = await createChatCompletion(label, {
+    model: SUMMARY_MODEL,
+    messages: [
+      {
+        role: "system",
+        content: SYSTEM_PROMPT
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ],
+    response_format: { type: "json_object" }
+  }, usage);
+
+  // Safely handle null content
+  const result = summaryResponseSchema.safeParse(JSON.parse(response.choices[0].message.content || "{}"));
+  if (!result.success) {
+    throw new Error(`Unexpected summary response for ${label}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Summarize a whole transcript. Short transcripts are summarized in one
+ * request; longer ones are summarized section by section and the section
+ * summaries combined, so the result covers the entire episode.
+ * @param episodeTitle The title of the episode
+ * @param transcript The transcript text
+ * @param hosts Names of the show's hosts, so they aren't listed as guests
+ * @param usage What the requests are recorded against
+ * @returns Episode summary and guests
+ */
+export async function summarizeTranscript(
+  episodeTitle: string,
+  transcript: string,
+  hosts: string[] = [],
+  usage: UsageContext = { step: "summarize" }
+): Promise<EpisodeSummary> {
+  const sections = splitIntoSections(transcript, SUMMARY_SECTION_LENGTH);
+
+  if (sections.length <= 1) {
+    return requestSummary(
+      `Summary of "${episodeTitle}"`,
+      createSummaryPrompt(episodeTitle, transcript, SUMMARY_SECTION_LENGTH, hosts),
+      usage
+    );
+  }
+
+  // Map: summarize each section on its own
+  console.log(`Summarizing ${sections.length} sections of "${episodeTitle}"`);
+  const sectionSummaries = await mapWithConcurrency(
+    sections,
+    SUMMARY_SECTION_CONCURRENCY,
+    (section, i) =>
+      requestSummary(
+        `Summary of section ${i + 1} of "${episodeTitle}"`,
+        createSectionSummaryPrompt(episodeTitle, section, i, sections.length, hosts),
+        usage
+      )
+  );
+
+  // Reduce: merge the section summaries and their guests
+  const sectionGuests = [...new Set(sectionSummaries.flatMap((section) => section.guests))];
+  return requestSummary(
+    `Combined summary of "${episodeTitle}"`,
+    createCombineSummariesPrompt(
+      episodeTitle,
+      sectionSummaries.map((section) => section.summary),
+      sectionGuests,
+      hosts
+    ),
+    usage
+  );
+}
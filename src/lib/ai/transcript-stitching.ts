@@ -0,0 +1,127 @@
+import { SPLIT_OVERLAP_SECONDS } from "./config";
+import { segmentsToText, TranscriptSegment } from "./transcript-timing";
+import { TranscriptionResult } from "./transcription";
+
+// How many words at each side of a boundary to search for the repeated overlap.
+// Generous for fast talkers: speech rarely passes 4 words per second.
+const STITCH_SEARCH_WORDS = SPLIT_OVERLAP_SECONDS * 8;
+// Shorter matches are too likely to be common phrases rather than the overlap
+const MIN_STITCH_WORDS = 3;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Find the longest run of words shared by two word lists
+ * @returns Start of the run in each list and its length
+ */
+function findLongestCommonRun(
+  a: string[],
+  b: string[]
+): { aStart: number; bStart: number; length: number } {
+  let best = { aStart: 0, bStart: 0, length: 0 };
+  // lengths[j] is the run length ending at a[i - 1] and b[j - 1]
+  let previous = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const lengths = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1] && a[i - 1] === b[j - 1]) {
+        lengths[j] = previous[j - 1] + 1;
+        if (lengths[j] > best.length) {
+          best = { aStart: i - lengths[j], bStart: j - lengths[j], length: lengths[j] };
+        }
+      }
+    }
+    previous = lengths;
+  }
+
+  return best;
+}
+
+/**
+ * Join two transcript pieces whose audio overlapped, keeping the repeated
+ * words once. The repeat is found as the longest run of words shared by the
+ * end of one piece and the start of the next, since words right at the cut
+ * are often transcribed differently by each piece.
+ * @param previous Text of the earlier piece
+ * @param next Text of the piece that follows it
+ * @returns Combined text
+ */
+export function stitchOverlappingText(previous: string, next: string): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+
+  const tailStart = Math.max(0, previousWords.length - STITCH_SEARCH_WORDS);
+  const tail = previousWords.slice(tailStart).map(normalizeWord);
+  const head = nextWords.slice(0, STITCH_SEARCH_WORDS).map(normalizeWord);
+
+  const run = findLongestCommonRun(tail, head);
+  if (run.length < MIN_STITCH_WORDS) {
+    return [previous, next].filter(Boolean).join(" ");
+  }
+
+  return [
+    ...previousWords.slice(0, tailStart + run.aStart),
+    ...nextWords.slice(run.bStart),
+  ].join(" ");
+}
+
+/**
+ * Segments of a piece up to where the next piece starts, which the next piece
+ * doesn't repeat. A segment running across the cut is trimmed where the next
+ * piece's repeat of its words begins; when no repeat is found, it's kept only
+ * if its midpoint is before the cut.
+ * @param segments Segments of the earlier piece, in episode time
+ * @param cut Start of the next piece within the episode
+ * @param nextText Text of the next piece
+ */
+function segmentsBeforeCut(segments: TranscriptSegment[], cut: number, nextText: string): TranscriptSegment[] {
+  const head = nextText.split(/\s+/).filter(Boolean).slice(0, STITCH_SEARCH_WORDS).map(normalizeWord);
+
+  return segments.flatMap((segment) => {
+    if (segment.end <= cut) return [segment];
+    if (segment.start >= cut) return [];
+
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const run = findLongestCommonRun(words.map(normalizeWord), head);
+    if (run.length < MIN_STITCH_WORDS) {
+      return (segment.start + segment.end) / 2 < cut ? [segment] : [];
+    }
+
+    const text = words.slice(0, run.aStart).join(" ");
+    return text ? [{ start: segment.start, end: cut, text }] : [];
+  });
+}
+
+/**
+ * Combine the transcripts of overlapping audio pieces into one
+ * @param results Transcript of each piece, with segments already in episode time
+ * @param startTimes Start of each piece within the episode
+ * @returns Episode transcript without the text repeated by the overlaps.
+ * Segments are kept only when every piece has them.
+ */
+export function stitchChunkTranscripts(
+  results: TranscriptionResult[],
+  startTimes: number[]
+): TranscriptionResult {
+  const isTimed = results.every((result) => result.segments.length > 0);
+
+  if (isTimed) {
+    // Each piece owns its audio up to where the next piece starts; segments
+    // past that point are the overlap and are heard again by the next piece
+    const segments = results.flatMap((result, i) =>
+      i + 1 < results.length
+        ? segmentsBeforeCut(result.segments, startTimes[i + 1], segmentsToText(results[i + 1].segments))
+        : result.segments
+    );
+    return { text: segmentsToText(segments), segments };
+  }
+
+  const text = results
+    .map((result) => result.text)
+    .filter(Boolean)
+    .reduce((combined, piece) => stitchOverlappingText(combined, piece), "");
+  return { text, segments: [] };
+}
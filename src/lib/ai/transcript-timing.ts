@@ -0,0 +1,115 @@
+// Types
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkTiming {
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+interface SegmentSpan {
+  from: number;
+  to: number;
+  segment: TranscriptSegment;
+}
+
+/**
+ * Shift segment timestamps from chunk-relative to episode-relative time
+ * @param segments Segments returned for a single audio chunk
+ * @param offsetSeconds Start time of the audio chunk within the episode
+ * @returns Segments with trimmed text and absolute timestamps
+ */
+export function offsetSegments(
+  segments: TranscriptSegment[],
+  offsetSeconds: number
+): TranscriptSegment[] {
+  return segments
+    .map((segment) => ({
+      start: segment.start + offsetSeconds,
+      end: segment.end + offsetSeconds,
+      text: segment.text.trim(),
+    }))
+    .filter((segment) => segment.text !== "");
+}
+
+/**
+ * Join segments into the plain transcript text stored alongside them
+ * @param segments Episode segments in playback order
+ * @returns Transcript text
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(" ");
+}
+
+/**
+ * Compute the character span each segment occupies in segmentsToText()
+ */
+function getSegmentSpans(segments: TranscriptSegment[]): SegmentSpan[] {
+  const spans: SegmentSpan[] = [];
+  let cursor = 0;
+
+  for (const segment of segments) {
+    spans.push({ from: cursor, to: cursor + segment.text.length, segment });
+    cursor += segment.text.length + 1; // account for the joining space
+  }
+
+  return spans;
+}
+
+function findSegmentAt(spans: SegmentSpan[], offset: number): TranscriptSegment | null {
+  for (const span of spans) {
+    if (offset < span.to + 1) {
+      return span.segment;
+    }
+  }
+  return spans.length > 0 ? spans[spans.length - 1].segment : null;
+}
+
+/**
+ * Locate each chunk in the timed transcript and return its start/end times
+ * @param chunks Chunks produced from segmentsToText(segments), in order
+ * @param segments Episode segments with absolute timestamps
+ * @returns Start/end seconds for every chunk (null when a chunk can't be located)
+ */
+export function getChunkTimings(
+  chunks: string[],
+  segments: TranscriptSegment[]
+): ChunkTiming[] {
+  const text = segmentsToText(segments);
+  const spans = getSegmentSpans(segments);
+  let searchFrom = 0;
+
+  return chunks.map((chunk) => {
+    // Chunks overlap, so the next one can start before the previous one ends
+    const position = text.indexOf(chunk, searchFrom);
+    if (position === -1) {
+      return { startSeconds: null, endSeconds: null };
+    }
+    searchFrom = position + 1;
+
+    const first = findSegmentAt(spans, position);
+    const last = findSegmentAt(spans, position + chunk.length - 1);
+
+    return {
+      startSeconds: first ? first.start : null,
+      endSeconds: last ? last.end : null,
+    };
+  });
+}
+
+/**
+ * Format seconds as a h:mm:ss / m:ss timestamp for citations
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
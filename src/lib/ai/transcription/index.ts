@@ -0,0 +1,28 @@
+import { TRANSCRIPTION_PROVIDER } from '../config';
+import { localWhisperTranscriptionProvider } from './local-whisper';
+import { openAITranscriptionProvider } from './openai';
+import { transcriptFileTranscriptionProvider } from './transcript-file';
+import { TranscriptionProvider } from './types';
+
+export * from './types';
+
+const TRANSCRIPTION_PROVIDERS: Record<string, TranscriptionProvider> = {
+  [openAITranscriptionProvider.name]: openAITranscriptionProvider,
+  [localWhisperTranscriptionProvider.name]: localWhisperTranscriptionProvider,
+  [transcriptFileTranscriptionProvider.name]: transcriptFileTranscriptionProvider,
+};
+
+/**
+ * Get the transcription provider selected by TRANSCRIPTION_PROVIDER
+ * @param name Provider name (defaults to the configured provider)
+ * @returns Transcription provider
+ */
+export function getTranscriptionProvider(name: string = TRANSCRIPTION_PROVIDER): TranscriptionProvider {
+  const provider = TRANSCRIPTION_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown transcription provider "${name}". Expected one of: ${Object.keys(TRANSCRIPTION_PROVIDERS).join(', ')}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import { basename, extname, join } from 'path';
+import { promisify } from 'util';
+import { exec as execCallback } from 'child_process';
+import { LOCAL_WHISPER_COMMAND, LOCAL_WHISPER_DIR } from '../config';
+import { SUBTITLE_EXTENSIONS, parseTranscriptFile } from './subtitles';
+import { TranscriptionProvider } from './types';
+
+// Convert callback-based functions to Promise-based
+const exec = promisify(execCallback);
+const mkdir = promisify(fs.mkdir);
+const readFile = promisify(fs.readFile);
+
+/**
+ * Quote a value as a single shell argument
+ */
+function shellQuote(value: string): string {
+  return `'${value.replaceAll("'", `'\\''`)}'`;
+}
+
+/**
+ * Fill the placeholders of the configured whisper command
+ */
+function buildWhisperCommand(inputPath: string, outputPrefix: string, prompt = ''): string {
+  return LOCAL_WHISPER_COMMAND
+    .replaceAll('{input}', `"${inputPath}"`)
+    .replaceAll('{output_dir}', `"${LOCAL_WHISPER_DIR}"`)
+    .replaceAll('{output}', `"${outputPrefix}"`)
+    .replaceAll('{prompt}', shellQuote(prompt));
+}
+
+/**
+ * Transcription provider that runs a local whisper.cpp or faster-whisper binary,
+ * so episodes can be transcribed offline without API cost
+ */
+export const localWhisperTranscriptionProvider: TranscriptionProvider = {
+  name: 'local-whisper',
+  requiresChunking: false,
+  requiresAudio: true,
+  async transcribe({ audioFilePath, prompt }) {
+    await mkdir(LOCAL_WHISPER_DIR, { recursive: true });
+
+    const name = basename(audioFilePath, extname(audioFilePath));
+    const wavPath = join(LOCAL_WHISPER_DIR, `${name}.wav`);
+    const outputPrefix = join(LOCAL_WHISPER_DIR, name);
+
+    console.log(`Transcribing ${basename(audioFilePath)} with local whisper...`);
+
+    // whisper.cpp only reads 16kHz mono WAV
+    await exec(`ffmpeg -y -i "${audioFilePath}" -ar 16000 -ac 1 -c:a pcm_s16le "${wavPath}"`);
+
+    try {
+      await exec(buildWhisperCommand(wavPath, outputPrefix, prompt), {
+        maxBuffer: 64 * 1024 * 1024, // whisper binaries print progress and text to stdout
+      });
+
+      for (const extension of SUBTITLE_EXTENSIONS) {
+        const outputPath = `${outputPrefix}${extension}`;
+        try {
+          const content = await readFile(outputPath, 'utf-8');
+          return parseTranscriptFile(outputPath, content);
+        } catch {
+          // Try the next output format
+        }
+      }
+
+      throw new Error(
+        `Local whisper produced no ${SUBTITLE_EXTENSIONS.join('/')} output at ${outputPrefix}`
+      );
+    } finally {
+      await fs.promises.rm(wavPath, { force: true });
+    }
+  },
+};
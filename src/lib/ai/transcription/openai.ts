@@ -0,0 +1,146 @@
+import { createReadStream } from 'fs';
+import { basename } from 'path';
+import { z } from 'zod';
+import { MAX_DURATION_SECONDS, TIMED_TRANSCRIPTION_MODEL, TIMED_TRANSCRIPTS, TRANSCRIPTION_MODEL } from '../config';
+import { TranscriptionProvider } from './types';
+import { recordUsage, UsageContext, withBudgetReservation } from '../usage';
+import { callProvider, getOpenAIClient, ProviderCallError } from '../provider-client';
+
+// Types
+export interface AudioTranscriptionOptions {
+  temperature?: number;
+  prompt?: string;
+  // Formats that return JSON; verbose_json adds segment timing
+  responseFormat?: 'json' | 'verbose_json';
+  timestampGranularities?: Array<'word' | 'segment'>;
+  // Records the audio minutes against this step and episode
+  usage?: UsageContext;
+  // Length of the audio when known; formats other than verbose_json don't report it
+  audioSeconds?: number;
+}
+
+// JSON transcription response; segments are only present for verbose_json
+const transcriptResponseSchema = z.object({
+  text: z.string(),
+  segments: z.array(z.object({
+    start: z.number().finite(),
+    end: z.number().finite(),
+    text: z.string(),
+  })).optional(),
+});
+
+/**
+ * Record the audio minutes of a transcription. Only verbose_json responses
+ * report a duration, so other formats are recorded with the caller's audio length.
+ */
+async function recordTranscriptionUsage(model: string, response: unknown, usage?: UsageContext, audioSeconds?: number) {
+  const duration = (response as { duration?: unknown }).duration;
+  await recordUsage({
+    ...(usage ?? { step: 'transcribe' }),
+    kind: 'transcription',
+    model,
+    audioSeconds: typeof duration === 'number' ? duration : audioSeconds ?? 0,
+  });
+}
+
+/**
+ * Transcribe audio file using OpenAI API
+ * @param audioFilePath Path to the audio file
+ * @param options Transcription options
+ * @returns Transcription result as a string
+ */
+export async function transcribeAudio(
+  audioFilePath: string, 
+  options: AudioTranscriptionOptions = {}
+): Promise<string> {
+  try {
+    console.log(`Transcribing ${basename(audioFilePath)}...`);
+    
+    // Initialize OpenAI client
+    const openai = getOpenAIClient();
+    
+    // Timestamps are only available from the whisper model via verbose_json
+    const model = options.responseFormat === 'verbose_json'
+      ? TIMED_TRANSCRIPTION_MODEL
+      : TRANSCRIPTION_MODEL;
+    
+    // Uploads are split into pieces of at most MAX_DURATION_SECONDS, so reserve that much audio when the length is unknown
+    const estimate = { audioSeconds: options.audioSeconds ?? MAX_DURATION_SECONDS };
+
+    // Call OpenAI API for transcription
+    try {
+      // Each attempt needs a fresh read stream since a failed upload consumes it
+      const response = await withBudgetReservation(model, estimate, async () => {
+        const response = await callProvider(`Transcription of ${basename(audioFilePath)}`, () => openai.audio.transcriptions.create({
+          file: createReadStream(audioFilePath),
+          model,
+          response_format: options.responseFormat,
+          temperature: options.temperature,
+          prompt: options.prompt,
+          timestamp_granularities: options.timestampGranularities,
+        }));
+        await recordTranscriptionUsage(model, response, options.usage, options.audioSeconds);
+        return response;
+      });
+      
+      return JSON.stringify(response, null, 2);
+    } catch (apiError: unknown) {
+      // If the model isn't available or rejects the request, fall back to whisper.
+      // Rate limits and outages have already been retried and would fail the same way.
+      if (model === "whisper-1" || !(apiError instanceof ProviderCallError) || apiError.kind !== "invalid_request") {
+        throw apiError;
+      }
+      console.warn(`Error with ${model}: ${apiError.message}`);
+      console.warn('Falling back to whisper-1 model...');
+      
+      const fallbackResponse = await withBudgetReservation("whisper-1", estimate, async () => {
+        const response = await callProvider(`Fallback transcription of ${basename(audioFilePath)}`, () => openai.audio.transcriptions.create({
+          file: createReadStream(audioFilePath),
+          model: "whisper-1", // Fallback to the whisper model
+          response_format: options.responseFormat,
+          temperature: options.temperature,
+          prompt: options.prompt,
+          timestamp_granularities: options.timestampGranularities,
+        }));
+        await recordTranscriptionUsage("whisper-1", response, options.usage, options.audioSeconds);
+        return response;
+      });
+      
+      console.log(`Fallback transcription completed for ${basename(audioFilePath)}`);
+      return JSON.stringify(fallbackResponse, null, 2);
+    }
+  } catch (error) {
+    console.error(`Error transcribing ${basename(audioFilePath)}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Transcription provider backed by the OpenAI API. Returns segment-level timing
+ * from whisper-1, or untimed text from the cheaper model when TIMED_TRANSCRIPTS is off.
+ */
+export const openAITranscriptionProvider: TranscriptionProvider = {
+  name: 'openai',
+  requiresChunking: true,
+  requiresAudio: true,
+  async transcribe({ audioFilePath, episode, temperature, prompt, audioSeconds }) {
+    const transcript = await transcribeAudio(audioFilePath, {
+      temperature,
+      prompt,
+      usage: { step: 'transcribe', resourceId: episode.resourceId },
+      audioSeconds,
+      ...(TIMED_TRANSCRIPTS
+        ? { responseFormat: 'verbose_json', timestampGranularities: ['segment'] }
+        : { responseFormat: 'json' }),
+    });
+
+    const parsed = transcriptResponseSchema.safeParse(JSON.parse(transcript));
+    if (!parsed.success) {
+      throw new Error(`Unexpected transcription response: ${parsed.error.message}`);
+    }
+    return {
+      text: parsed.data.text,
+      segments: parsed.data.segments ?? [],
+    };
+  },
+};
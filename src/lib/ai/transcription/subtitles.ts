@@ -0,0 +1,69 @@
+import { extname } from 'path';
+import { TranscriptSegment, segmentsToText } from '../transcript-timing';
+import { TranscriptionResult } from './types';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.txt'] as const;
+
+// Matches "00:01:02,500 --> 00:01:05,000" (SRT) and "01:02.500 --> 01:05.000" (VTT)
+const CUE_TIMING_PATTERN =
+  /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+/**
+ * Convert an SRT/VTT timestamp to seconds
+ */
+function parseCueTimestamp(timestamp: string): number {
+  const [clock, fraction = '0'] = timestamp.replace(',', '.').split('.');
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * Parse SRT or VTT cues into transcript segments
+ * @param content Subtitle file contents
+ * @returns Segments in file order
+ */
+export function parseSubtitleCues(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) {
+      continue; // WEBVTT header, NOTE or STYLE blocks
+    }
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]*>/g, '') // strip VTT voice/styling tags
+      .trim();
+
+    if (text) {
+      segments.push({
+        start: parseCueTimestamp(start),
+        end: parseCueTimestamp(end),
+        text,
+      });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a transcript file based on its extension
+ * @param filePath Path of the .srt, .vtt or .txt file
+ * @param content File contents
+ * @returns Transcript text, with segments for timed formats
+ */
+export function parseTranscriptFile(filePath: string, content: string): TranscriptionResult {
+  if (extname(filePath).toLowerCase() === '.txt') {
+    return { text: content.replace(/\s+/g, ' ').trim(), segments: [] };
+  }
+
+  const segments = parseSubtitleCues(content);
+  return { text: segmentsToText(segments), segments };
+}
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import { basename, extname, join } from 'path';
+import { promisify } from 'util';
+import { EXTERNAL_TRANSCRIPTS_DIR } from '../config';
+import { SUBTITLE_EXTENSIONS, parseTranscriptFile } from './subtitles';
+import { TranscriptionProvider } from './types';
+
+const readFile = promisify(fs.readFile);
+
+/**
+ * "Bring your own transcript" provider. Reads an existing .srt, .vtt or .txt
+ * file from EXTERNAL_TRANSCRIPTS_DIR named after the episode's audio file,
+ * its raw guid or its episode number (e.g. e521.srt).
+ */
+export const transcriptFileTranscriptionProvider: TranscriptionProvider = {
+  name: 'transcript-file',
+  requiresChunking: false,
+  // Transcripts are matched by name, so no audio is needed
+  requiresAudio: false,
+  async transcribe({ audioFilePath, episode }) {
+    const names = [...new Set([
+      basename(audioFilePath, extname(audioFilePath)),
+      episode.guid,
+      ...(episode.episodeNumber ? [`e${episode.episodeNumber}`] : []),
+    ])];
+
+    for (const name of names) {
+      for (const extension of SUBTITLE_EXTENSIONS) {
+        const transcriptPath = join(EXTERNAL_TRANSCRIPTS_DIR, `${name}${extension}`);
+        try {
+          const content = await readFile(transcriptPath, 'utf-8');
+          console.log(`Using existing transcript ${basename(transcriptPath)}`);
+          return parseTranscriptFile(transcriptPath, content);
+        } catch {
+          // Try the next candidate file
+        }
+      }
+    }
+
+    throw new Error(
+      `No transcript file found in ${EXTERNAL_TRANSCRIPTS_DIR} for ${names.join(' or ')}`
+    );
+  },
+};
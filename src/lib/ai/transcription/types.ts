@@ -0,0 +1,29 @@
+import { PodcastEpisode } from '../podcast-feed';
+import { TranscriptSegment } from '../transcript-timing';
+
+// Types
+export interface TranscriptionRequest {
+  // Downloaded audio, or where it would be for providers that don't need audio
+  audioFilePath: string;
+  episode: PodcastEpisode;
+  temperature?: number;
+  // Vocabulary hint, e.g. the show's glossary of names and jargon
+  prompt?: string;
+  // Length of the audio when known, for usage accounting
+  audioSeconds?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Empty when the backend can't provide timing (e.g. plain text transcripts)
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  // Whether audio must be split to fit the backend's upload limits first
+  requiresChunking: boolean;
+  // Whether the episode's audio must be downloaded first
+  requiresAudio: boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
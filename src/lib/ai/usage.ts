@@ -0,0 +1,286 @@
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { aiUsage } from "../db/schema/ai-usage";
+import { resources } from "../db/schema/resources";
+
+// Types
+export type UsageKind = "transcription" | "embedding" | "completion";
+
+// What a call was made for, recorded with its usage
+export interface UsageContext {
+  // Pipeline stage or "chat"
+  step: string;
+  resourceId?: string;
+  requestId?: string;
+}
+
+export interface UsageEntry extends UsageContext {
+  kind: UsageKind;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+}
+
+export const USAGE_GROUPINGS = ["step", "model", "episode", "day"] as const;
+export type UsageGrouping = (typeof USAGE_GROUPINGS)[number];
+
+export interface UsageReportRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioMinutes: number;
+  costUsd: number;
+}
+
+interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perAudioMinute?: number;
+}
+
+// OpenAI list prices in USD. Models not listed here (e.g. local ones) are free.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini-transcribe": { perAudioMinute: 0.003 },
+  "whisper-1": { perAudioMinute: 0.006 },
+  "gpt-4o-mini": { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  "gpt-4o": { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 },
+  "text-embedding-3-small": { inputPerMillionTokens: 0.02 },
+  "text-embedding-3-large": { inputPerMillionTokens: 0.13 },
+};
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Spending limits for the current pipeline run. Chat requests never set one.
+let budget: { runLimitUsd?: number; monthlyLimitUsd?: number; spentThisMonthUsd: number } | null = null;
+let spentThisRunUsd = 0;
+// Estimated cost of calls in flight, counted against the limits until their usage is recorded
+let reservedThisRunUsd = 0;
+
+/**
+ * Find the price of a model, matching dated snapshots like "gpt-4o-mini-2024-07-18"
+ * to their base model
+ */
+function getModelPrice(model: string): ModelPrice | undefined {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+
+  const baseModel = Object.keys(MODEL_PRICES)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return baseModel ? MODEL_PRICES[baseModel] : undefined;
+}
+
+/**
+ * Estimate the cost of a call from its token counts or audio length
+ * @returns Cost in USD, 0 for models without a known price
+ */
+export function estimateCost(
+  model: string,
+  { inputTokens = 0, outputTokens = 0, audioSeconds = 0 }: Pick<UsageEntry, "inputTokens" | "outputTokens" | "audioSeconds">
+): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+
+  return (
+    (inputTokens * (price.inputPerMillionTokens ?? 0)) / 1_000_000 +
+    (outputTokens * (price.outputPerMillionTokens ?? 0)) / 1_000_000 +
+    (audioSeconds / 60) * (price.perAudioMinute ?? 0)
+  );
+}
+
+/**
+ * Store the usage and estimated cost of one call. Failures are logged rather
+ * than thrown so accounting never breaks ingestion or chat.
+ * @param entry Model, counts and what the call was made for
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const costUsd = estimateCost(entry.model, entry);
+  spentThisRunUsd += costUsd;
+
+  try {
+    await db.insert(aiUsage).values({
+      kind: entry.kind,
+      model: entry.model,
+      step: entry.step,
+      resourceId: entry.resourceId,
+      requestId: entry.requestId,
+      inputTokens: entry.inputTokens ?? 0,
+      outputTokens: entry.outputTokens ?? 0,
+      audioSeconds: entry.audioSeconds ?? 0,
+      costUsd,
+    });
+  } catch (error) {
+    console.warn(`Could not record ${entry.kind} usage for ${entry.model}:`, error);
+  }
+}
+
+/**
+ * Reserve the estimated cost of a paid call against the budget while it runs.
+ * Calls made in parallel each see the others' reservations, so they can't all
+ * pass the budget check and overshoot it together. The reservation is released
+ * when the call returns, after it has recorded its actual usage.
+ * @param model Model the call uses
+ * @param estimate Expected token counts or audio length
+ * @param call Function making the call and recording its usage
+ * @returns The call's result
+ * @throws BudgetExceededError when the reservation doesn't fit the remaining budget
+ */
+export async function withBudgetReservation<T>(
+  model: string,
+  estimate: Pick<UsageEntry, "inputTokens" | "outputTokens" | "audioSeconds">,
+  call: () => Promise<T>
+): Promise<T> {
+  const reservedUsd = estimateCost(model, estimate);
+  assertWithinBudget(reservedUsd);
+
+  reservedThisRunUsd += reservedUsd;
+  try {
+    return await call();
+  } finally {
+    reservedThisRunUsd -= reservedUsd;
+  }
+}
+
+/**
+ * Run a chat completion request and record its token usage
+ * @param context What the call is made for
+ * @param estimate Model and expected token counts, reserved against the budget
+ * @param request Function making the request
+ * @returns The completion
+ */
+export async function withCompletionUsage<
+  T extends { model: string; usage?: { prompt_tokens: number; completion_tokens: number } }
+>(
+  context: UsageContext,
+  estimate: { model: string; inputTokens: number; outputTokens: number },
+  request: () => Promise<T>
+): Promise<T> {
+  return withBudgetReservation(estimate.model, estimate, async () => {
+    const response = await request();
+
+    await recordUsage({
+      ...context,
+      kind: "completion",
+      model: response.model,
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+    });
+    return response;
+  });
+}
+
+/**
+ * Start enforcing spending limits for this process. The monthly limit counts
+ * everything recorded since the start of the calendar month.
+ * @param runLimitUsd Maximum spend for this run
+ * @param monthlyLimitUsd Maximum spend for the month, including earlier runs and chat
+ */
+export async function startBudget(runLimitUsd?: number, monthlyLimitUsd?: number): Promise<void> {
+  spentThisRunUsd = 0;
+  reservedThisRunUsd = 0;
+  if (runLimitUsd === undefined && monthlyLimitUsd === undefined) {
+    budget = null;
+    return;
+  }
+
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const spentThisMonthUsd = monthlyLimitUsd !== undefined
+    ? await getTotalCost(monthStart)
+    : 0;
+
+  budget = { runLimitUsd, monthlyLimitUsd, spentThisMonthUsd };
+  assertWithinBudget();
+}
+
+/**
+ * Throw before a paid call once the run or monthly limit has been reached, or
+ * when the call's estimated cost wouldn't fit next to what is spent and reserved
+ * @param pendingUsd Estimated cost of the call about to be made
+ * @throws BudgetExceededError
+ */
+export function assertWithinBudget(pendingUsd: number = 0): void {
+  if (!budget) return;
+
+  const exceeds = (committedUsd: number, limitUsd: number) =>
+    committedUsd >= limitUsd || committedUsd + pendingUsd > limitUsd;
+  const describe = (spentUsd: number) =>
+    `$${spentUsd.toFixed(4)} spent, $${reservedThisRunUsd.toFixed(4)} reserved by calls in flight, $${pendingUsd.toFixed(4)} needed`;
+
+  const committedThisRunUsd = spentThisRunUsd + reservedThisRunUsd;
+  if (budget.runLimitUsd !== undefined && exceeds(committedThisRunUsd, budget.runLimitUsd)) {
+    throw new BudgetExceededError(
+      `Run budget of $${budget.runLimitUsd.toFixed(2)} reached (${describe(spentThisRunUsd)})`
+    );
+  }
+
+  const spentThisMonthUsd = budget.spentThisMonthUsd + spentThisRunUsd;
+  if (budget.monthlyLimitUsd !== undefined && exceeds(spentThisMonthUsd + reservedThisRunUsd, budget.monthlyLimitUsd)) {
+    throw new BudgetExceededError(
+      `Monthly budget of $${budget.monthlyLimitUsd.toFixed(2)} reached (${describe(spentThisMonthUsd)})`
+    );
+  }
+}
+
+/**
+ * Estimated spend of this process so far, in USD
+ */
+export function getRunCost(): number {
+  return spentThisRunUsd;
+}
+
+/**
+ * Total estimated spend recorded since a date, in USD
+ */
+export async function getTotalCost(since: Date): Promise<number> {
+  const [row] = await db
+    .select({ costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`.mapWith(Number) })
+    .from(aiUsage)
+    .where(gte(aiUsage.createdAt, since));
+  return row?.costUsd ?? 0;
+}
+
+/**
+ * Summarize recorded usage, most expensive first
+ * @param groupBy Step, model, episode or day
+ * @param since Only count calls made on or after this date
+ * @param podcastId Only count calls made for episodes of this show
+ * @returns One row per group
+ */
+export async function getUsageReport(
+  groupBy: UsageGrouping,
+  since?: Date,
+  podcastId?: string
+): Promise<UsageReportRow[]> {
+  const key = {
+    step: sql<string>`${aiUsage.step}`,
+    model: sql<string>`${aiUsage.model}`,
+    episode: sql<string>`coalesce(${resources.episodeNumber} || ': ' || ${resources.title}, '(no episode)')`,
+    day: sql<string>`to_char(${aiUsage.createdAt}, 'YYYY-MM-DD')`,
+  }[groupBy];
+  const costUsd = sql<number>`sum(${aiUsage.costUsd})`.mapWith(Number);
+
+  return db
+    .select({
+      key,
+      calls: sql<number>`count(*)`.mapWith(Number),
+      inputTokens: sql<number>`sum(${aiUsage.inputTokens})`.mapWith(Number),
+      outputTokens: sql<number>`sum(${aiUsage.outputTokens})`.mapWith(Number),
+      audioMinutes: sql<number>`sum(${aiUsage.audioSeconds}) / 60`.mapWith(Number),
+      costUsd,
+    })
+    .from(aiUsage)
+    .leftJoin(resources, eq(aiUsage.resourceId, resources.id))
+    .where(and(
+      since ? gte(aiUsage.createdAt, since) : undefined,
+      podcastId ? eq(resources.podcastId, podcastId) : undefined
+    ))
+    .groupBy(key)
+    .orderBy(desc(costUsd));
+}
@@ -1,8 +1,18 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { sql } from 'drizzle-orm';
+import * as podcasts from './schema/podcasts';
 import * as resources from './schema/resources';
 import * as embeddings from './schema/embeddings';
+import * as ingestionState from './schema/ingestion-state';
+import * as glossaryTerms from './schema/glossary-terms';
+import * as chapters from './schema/chapters';
+import * as entities from './schema/entities';
+import * as guests from './schema/guests';
+import * as episodeGuests from './schema/episode-guests';
+import * as aiUsage from './schema/ai-usage';
+import * as ingestRuns from './schema/ingest-runs';
+import * as ingestRunResults from './schema/ingest-run-results';
 import * as dotenv from 'dotenv';
 import path from 'path';
 
@@ -12,8 +22,18 @@ dotenv.config({ path: envPath });
 
 // Combine all schema modules
 export const schema = {
+  ...podcasts,
   ...resources,
-  ...embeddings
+  ...embeddings,
+  ...ingestionState,
+  ...glossaryTerms,
+  ...chapters,
+  ...entities,
+  ...guests,
+  ...episodeGuests,
+  ...aiUsage,
+  ...ingestRuns,
+  ...ingestRunResults
 };
 
 // Get database URL from environment variables
@@ -0,0 +1,2 @@
+ALTER TABLE "embeddings" ADD COLUMN "start_seconds" real;--> statement-breakpoint
+ALTER TABLE "embeddings" ADD COLUMN "end_seconds" real;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "ingestion_state" (
+	"resource_id" varchar(191) PRIMARY KEY NOT NULL,
+	"downloaded_at" timestamp,
+	"download_error" text,
+	"transcribed_at" timestamp,
+	"transcribe_error" text,
+	"summarized_at" timestamp,
+	"summarize_error" text,
+	"embedded_at" timestamp,
+	"embed_error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_state" ADD CONSTRAINT "ingestion_state_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
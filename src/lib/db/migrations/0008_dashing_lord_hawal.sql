@@ -0,0 +1,8 @@
+ALTER TABLE "embeddings" ADD COLUMN "embedding_model" varchar(191);--> statement-breakpoint
+ALTER TABLE "embeddings" ADD COLUMN "embedding_dimensions" integer;--> statement-breakpoint
+-- Every existing vector was created with text-embedding-3-small
+UPDATE "embeddings" SET "embedding_model" = 'text-embedding-3-small', "embedding_dimensions" = 1536;--> statement-breakpoint
+ALTER TABLE "embeddings" ALTER COLUMN "embedding_model" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "embeddings" ALTER COLUMN "embedding_dimensions" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "summary_embedding_model" varchar(191);--> statement-breakpoint
+UPDATE "resources" SET "summary_embedding_model" = 'text-embedding-3-small' WHERE "summary_embedding" IS NOT NULL;
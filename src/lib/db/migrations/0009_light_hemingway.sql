@@ -0,0 +1,33 @@
+CREATE TABLE "podcasts" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"slug" varchar(191) NOT NULL,
+	"name" text NOT NULL,
+	"feed_url" text NOT NULL,
+	"hosts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"persona_prompt" text,
+	"suggested_queries" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "podcasts_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+-- Register the original show and attach the existing episodes to it
+INSERT INTO "podcasts" ("id", "slug", "name", "feed_url", "hosts", "persona_prompt", "suggested_queries") VALUES (
+	'the-running-public',
+	'the-running-public',
+	'The Running Public',
+	'https://feed.podbean.com/therunningpublic/feed.xml',
+	'["Kirk DeWindt", "Brakken Kraker"]'::jsonb,
+	'You are an AI assistant for The Running Public Podcast, where serious training meets not-so-serious banter. Hosted by Kirk DeWindt and Brakken Kraker, two seasoned endurance athletes and coaches, the podcast delivers high-level running knowledge in a practical, often humorous format.
+
+The Running Public covers a range of topics, from road and trail running to obstacle course racing (OCR) and hybrid events. The show features two main segments: "Training Tuesday," offering actionable training advice, and "The Weekend Long Run," which includes interviews with athletes, coaches, and experts in the field.
+
+Kirk and Brakken''s dynamic is a blend of expertise and lightheartedness, making complex training concepts accessible and entertaining. Their combined experience provides listeners with insights into effective training strategies, injury prevention, and performance optimization. The podcast serves both seasoned runners and beginners alike.',
+	'["What are Kirk and Brakken''s thoughts on marathon training for beginners?", "Tell me about the best workouts for improving 5K speed", "How do the hosts approach recovery after hard training?", "What nutrition advice do they share for race day?", "What have they said about preventing common running injuries?", "Tell me about their favorite episodes on mental training", "What gear recommendations have been mentioned for trail running?", "How do they structure base building phases?", "What''s their approach to interval training?", "Who are some notable guests they''ve had on obstacle course racing?", "What have they discussed about balancing running with strength training?", "How do they approach training for hilly races?", "What are their thoughts on running form and technique?", "Tell me about their personal training philosophies", "What have they said about fueling for long runs?"]'::jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "podcast_id" varchar(191);--> statement-breakpoint
+UPDATE "resources" SET "podcast_id" = 'the-running-public';--> statement-breakpoint
+ALTER TABLE "resources" ALTER COLUMN "podcast_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "resources" ADD CONSTRAINT "resources_podcast_id_podcasts_id_fk" FOREIGN KEY ("podcast_id") REFERENCES "public"."podcasts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "resources_podcast_id_idx" ON "resources" USING btree ("podcast_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "podcasts" ADD COLUMN "feed_etag" text;--> statement-breakpoint
+ALTER TABLE "podcasts" ADD COLUMN "feed_last_modified" text;--> statement-breakpoint
+ALTER TABLE "podcasts" ADD COLUMN "feed_synced_at" timestamp;
\ No newline at end of file
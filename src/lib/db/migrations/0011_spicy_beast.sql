@@ -0,0 +1,2 @@
+ALTER TABLE "ingestion_state" ADD COLUMN "audio_bytes" integer;--> statement-breakpoint
+ALTER TABLE "ingestion_state" ADD COLUMN "audio_sha256" varchar(64);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "embeddings" ADD COLUMN "segment_type" varchar(16) DEFAULT 'content' NOT NULL;
\ No newline at end of file
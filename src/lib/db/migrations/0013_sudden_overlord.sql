@@ -0,0 +1,18 @@
+CREATE TABLE "glossary_terms" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"podcast_id" varchar(191),
+	"term" text NOT NULL,
+	"variants" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"category" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "glossary_terms" ADD CONSTRAINT "glossary_terms_podcast_id_podcasts_id_fk" FOREIGN KEY ("podcast_id") REFERENCES "public"."podcasts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Names and jargon The Running Public transcripts are known to get wrong
+INSERT INTO "glossary_terms" ("id", "podcast_id", "term", "variants", "category") VALUES
+	('trp-brakken-kraker', 'the-running-public', 'Brakken Kraker', '["Bracken Crocker", "Bracken Kraker", "Brakken Crocker", "Braken Kraker"]'::jsonb, 'host'),
+	('trp-brakken', 'the-running-public', 'Brakken', '["Bracken"]'::jsonb, 'host'),
+	('trp-kirk-dewindt', 'the-running-public', 'Kirk DeWindt', '["Kirk DeWint", "Kirk De Wint", "Kirk Dewint", "Kirk DeWitt"]'::jsonb, 'host'),
+	('trp-dewindt', 'the-running-public', 'DeWindt', '["DeWint", "De Wint"]'::jsonb, 'host'),
+	('trp-hyrox', 'the-running-public', 'Hyrox', '["Hi Rox", "Hirox"]'::jsonb, 'race');
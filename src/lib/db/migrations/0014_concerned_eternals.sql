@@ -0,0 +1,13 @@
+CREATE TABLE "chapters" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"resource_id" varchar(191) NOT NULL,
+	"position" integer NOT NULL,
+	"title" text NOT NULL,
+	"topic" text NOT NULL,
+	"blurb" text NOT NULL,
+	"start_seconds" real,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chapters" ADD CONSTRAINT "chapters_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "chapters_resource_id_idx" ON "chapters" USING btree ("resource_id");
\ No newline at end of file
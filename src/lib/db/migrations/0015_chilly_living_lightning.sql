@@ -0,0 +1,18 @@
+CREATE TABLE "entities" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"resource_id" varchar(191) NOT NULL,
+	"embedding_id" varchar(191) NOT NULL,
+	"type" varchar(32) NOT NULL,
+	"name" text NOT NULL,
+	"mentioned_by" text,
+	"recommended" boolean DEFAULT false NOT NULL,
+	"context" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_state" ADD COLUMN "extracted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ingestion_state" ADD COLUMN "extract_error" text;--> statement-breakpoint
+ALTER TABLE "entities" ADD CONSTRAINT "entities_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "entities" ADD CONSTRAINT "entities_embedding_id_embeddings_id_fk" FOREIGN KEY ("embedding_id") REFERENCES "public"."embeddings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "entities_resource_id_idx" ON "entities" USING btree ("resource_id");--> statement-breakpoint
+CREATE INDEX "entities_type_name_idx" ON "entities" USING btree ("type","name");
\ No newline at end of file
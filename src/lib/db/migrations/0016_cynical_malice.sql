@@ -0,0 +1,46 @@
+CREATE TABLE "episode_guests" (
+	"resource_id" varchar(191) NOT NULL,
+	"guest_id" varchar(191) NOT NULL,
+	CONSTRAINT "episode_guests_resource_id_guest_id_pk" PRIMARY KEY("resource_id","guest_id")
+);
+--> statement-breakpoint
+CREATE TABLE "guests" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"slug" varchar(191) NOT NULL,
+	"name" text NOT NULL,
+	"aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"alias_slugs" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "guests_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "episode_guests" ADD CONSTRAINT "episode_guests_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "episode_guests" ADD CONSTRAINT "episode_guests_guest_id_guests_id_fk" FOREIGN KEY ("guest_id") REFERENCES "public"."guests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "episode_guests_guest_id_idx" ON "episode_guests" USING btree ("guest_id");--> statement-breakpoint
+CREATE INDEX "guests_alias_slugs_idx" ON "guests" USING gin ("alias_slugs");--> statement-breakpoint
+-- Legacy guest lists that aren't valid JSON arrays are skipped rather than failing the migration
+CREATE FUNCTION pg_temp.guest_list(value text) RETURNS jsonb AS $$
+BEGIN
+	IF jsonb_typeof(value::jsonb) = 'array' THEN
+		RETURN value::jsonb;
+	END IF;
+	RETURN '[]'::jsonb;
+EXCEPTION WHEN others THEN
+	RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+-- Backfill guests from the JSON lists in resources.guests, merging names with the same slug
+INSERT INTO "guests" ("id", "slug", "name")
+SELECT 'g' || substr(md5("slug"), 1, 20), "slug", min("name")
+FROM (
+	SELECT btrim(g."name") AS "name",
+		btrim(regexp_replace(lower(btrim(g."name")), '[^[:alnum:]]+', '-', 'g'), '-') AS "slug"
+	FROM "resources" r, jsonb_array_elements_text(pg_temp.guest_list(r."guests")) AS g("name")
+) AS "names"
+WHERE "slug" <> ''
+GROUP BY "slug";--> statement-breakpoint
+INSERT INTO "episode_guests" ("resource_id", "guest_id")
+SELECT DISTINCT r."id", 'g' || substr(md5(btrim(regexp_replace(lower(btrim(g."name")), '[^[:alnum:]]+', '-', 'g'), '-')), 1, 20)
+FROM "resources" r, jsonb_array_elements_text(pg_temp.guest_list(r."guests")) AS g("name")
+WHERE btrim(regexp_replace(lower(btrim(g."name")), '[^[:alnum:]]+', '-', 'g'), '-') <> '';
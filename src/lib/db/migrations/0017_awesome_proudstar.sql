@@ -0,0 +1,17 @@
+CREATE TABLE "ai_usage" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"kind" varchar(32) NOT NULL,
+	"model" text NOT NULL,
+	"step" varchar(32) NOT NULL,
+	"resource_id" varchar(191),
+	"request_id" varchar(191),
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"audio_seconds" real DEFAULT 0 NOT NULL,
+	"cost_usd" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_usage_created_at_idx" ON "ai_usage" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "ai_usage_resource_id_idx" ON "ai_usage" USING btree ("resource_id");
\ No newline at end of file
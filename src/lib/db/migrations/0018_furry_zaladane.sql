@@ -0,0 +1,25 @@
+CREATE TABLE "ingest_run_results" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"run_id" varchar(191) NOT NULL,
+	"resource_id" varchar(191) NOT NULL,
+	"stage" varchar(32) NOT NULL,
+	"status" varchar(16) NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ingest_runs" (
+	"id" varchar(191) PRIMARY KEY NOT NULL,
+	"command" varchar(32) NOT NULL,
+	"args" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(16) DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"error" text,
+	"counts" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"cost_usd" real DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ingest_run_results" ADD CONSTRAINT "ingest_run_results_run_id_ingest_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."ingest_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingest_run_results" ADD CONSTRAINT "ingest_run_results_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingest_run_results_run_id_idx" ON "ingest_run_results" USING btree ("run_id");
\ No newline at end of file
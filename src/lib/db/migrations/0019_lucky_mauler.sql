@@ -0,0 +1,17 @@
+ALTER TABLE "embeddings" ADD COLUMN "chunk_index" integer;--> statement-breakpoint
+ALTER TABLE "embeddings" ADD COLUMN "token_count" integer;--> statement-breakpoint
+ALTER TABLE "embeddings" ADD COLUMN "char_start" integer;--> statement-breakpoint
+ALTER TABLE "embeddings" ADD COLUMN "char_end" integer;--> statement-breakpoint
+-- Number existing chunks in playback order; offsets and token counts are filled in by re-embedding
+UPDATE "embeddings" e
+SET "chunk_index" = ordered."position"
+FROM (
+	SELECT "id", row_number() OVER (
+		PARTITION BY "resource_id"
+		ORDER BY "start_seconds" NULLS LAST, "created_at", "id"
+	) - 1 AS "position"
+	FROM "embeddings"
+) AS ordered
+WHERE e."id" = ordered."id";--> statement-breakpoint
+ALTER TABLE "embeddings" ALTER COLUMN "chunk_index" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "embeddings_resource_id_chunk_index_idx" ON "embeddings" USING btree ("resource_id","chunk_index");
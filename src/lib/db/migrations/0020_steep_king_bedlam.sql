@@ -0,0 +1 @@
+ALTER TABLE "embeddings" ADD COLUMN "context" text;
\ No newline at end of file
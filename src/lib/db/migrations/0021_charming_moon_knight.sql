@@ -0,0 +1,2 @@
+ALTER TABLE "resources" ADD COLUMN "episode_type" varchar(16) DEFAULT 'full' NOT NULL;--> statement-breakpoint
+UPDATE "resources" SET "episode_number" = (regexp_match("title", '(?:\mepisode|\mep\.?|#)\s*(\d+)\M', 'i'))[1] WHERE "episode_type" = 'full' AND coalesce("episode_number", '') = '' AND "title" ~* '(?:\mepisode|\mep\.?|#)\s*\d+\M';
@@ -0,0 +1,4 @@
+ALTER TABLE "embeddings" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;--> statement-breakpoint
+ALTER TABLE "resources" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("summary", '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "embeddings_search_vector_idx" ON "embeddings" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "resources_search_vector_idx" ON "resources" USING gin ("search_vector");
\ No newline at end of file
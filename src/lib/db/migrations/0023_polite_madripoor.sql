@@ -0,0 +1,4 @@
+ALTER TABLE "ingest_run_results" DROP CONSTRAINT "ingest_run_results_resource_id_resources_id_fk";
+--> statement-breakpoint
+ALTER TABLE "ingest_run_results" ALTER COLUMN "resource_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingest_run_results" ADD CONSTRAINT "ingest_run_results_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "public"."resources"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { index, integer, pgTable, real, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { nanoid } from './resources';
+import { resources } from './resources';
+import type { UsageKind } from '../../ai/usage';
+
+// One row per paid AI call: transcriptions, embeddings and completions
+export const aiUsage = pgTable(
+  'ai_usage',
+  {
+    id: varchar('id', { length: 191 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    kind: varchar('kind', { length: 32 }).$type<UsageKind>().notNull(),
+    model: text('model').notNull(),
+    // Pipeline stage ("transcribe", "summarize", "embed", "extract") or "chat"
+    step: varchar('step', { length: 32 }).notNull(),
+    // Episode the call was made for; kept as history when the episode is purged
+    resourceId: varchar('resource_id', { length: 191 })
+      .references(() => resources.id, { onDelete: 'set null' }),
+    // Groups the calls made while answering one chat request
+    requestId: varchar('request_id', { length: 191 }),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    audioSeconds: real('audio_seconds').notNull().default(0),
+    // Estimated from the prices in usage.ts at the time of the call
+    costUsd: real('cost_usd').notNull().default(0),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    createdAtIndex: index('ai_usage_created_at_idx').on(table.createdAt),
+    resourceIdIndex: index('ai_usage_resource_id_idx').on(table.resourceId),
+  }),
+);
+
+export type AiUsage = typeof aiUsage.$inferSelect;
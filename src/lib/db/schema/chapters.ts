@@ -0,0 +1,30 @@
+import { index, integer, pgTable, real, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { nanoid } from './resources';
+import { resources } from './resources';
+
+// Titled sections of an episode, like show notes chapters
+export const chapters = pgTable(
+  'chapters',
+  {
+    id: varchar('id', { length: 191 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    resourceId: varchar('resource_id', { length: 191 })
+      .notNull()
+      .references(() => resources.id, { onDelete: 'cascade' }),
+    // Order of the chapter within the episode, starting at 0
+    position: integer('position').notNull(),
+    title: text('title').notNull(),
+    // Short topic label, e.g. "Marathon taper"
+    topic: text('topic').notNull(),
+    blurb: text('blurb').notNull(),
+    // Null when the episode has no timed transcript
+    startSeconds: real('start_seconds'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    resourceIdIndex: index('chapters_resource_id_idx').on(table.resourceId),
+  }),
+);
+
+export type Chapter = typeof chapters.$inferSelect;
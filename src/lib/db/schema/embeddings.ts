@@ -1,5 +1,8 @@
-import { index, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
-import { nanoid, pgVector } from './resources';
+import { SQL, sql } from 'drizzle-orm';
+import { index, integer, pgTable, real, text, timestamp, uniqueIndex, varchar } from 'drizzle-orm/pg-core';
+import { EMBEDDING_DIMENSIONS } from '../../ai/config';
+import type { SegmentType } from '../../ai/segment-classification';
+import { nanoid, pgVector, tsVector } from './resources';
 import { resources } from './resources';
 
 export const embeddings = pgTable(
@@ -13,7 +16,29 @@ export const embeddings = pgTable(
       { onDelete: 'cascade' },
     ),
     content: text('content').notNull(),
-    embedding: pgVector('embedding').notNull(),
+    // Generated line placing the chunk in its episode, embedded in front of the content.
+    // Null when the chunk was embedded without contextual embeddings.
+    context: text('context'),
+    // Words of the content for keyword search
+    searchVector: tsVector('search_vector').generatedAlwaysAs(
+      (): SQL => sql`to_tsvector('english', ${embeddings.content})`,
+    ),
+    // Position of the chunk within the episode, starting at 0
+    chunkIndex: integer('chunk_index').notNull(),
+    tokenCount: integer('token_count'),
+    // Character offsets into the transcript text the chunks were cut from (after
+    // glossary corrections), end exclusive. Null for chunks stored before offsets were kept.
+    charStart: integer('char_start'),
+    charEnd: integer('char_end'),
+    embedding: pgVector('embedding', { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+    // Model and size of the vector, so queries are embedded the same way
+    embeddingModel: varchar('embedding_model', { length: 191 }).notNull(),
+    embeddingDimensions: integer('embedding_dimensions').notNull(),
+    // Position of the chunk within the episode audio, in seconds
+    startSeconds: real('start_seconds'),
+    endSeconds: real('end_seconds'),
+    // "intro", "ad", "outro" or "content"; search skips everything but content by default
+    segmentType: varchar('segment_type', { length: 16 }).$type<SegmentType>().notNull().default('content'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   table => ({
@@ -21,6 +46,11 @@ export const embeddings = pgTable(
       'ivfflat',
       table.embedding.op('vector_cosine_ops'),
     ),
+    searchVectorIndex: index('embeddings_search_vector_idx').using('gin', table.searchVector),
+    resourceChunkIndex: uniqueIndex('embeddings_resource_id_chunk_index_idx').on(
+      table.resourceId,
+      table.chunkIndex,
+    ),
   }),
 );
 
@@ -0,0 +1,39 @@
+import { boolean, index, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { nanoid } from './resources';
+import { resources } from './resources';
+import { embeddings } from './embeddings';
+import type { EntityType } from '../../ai/entities';
+
+// Races, gear, products, books and coaches mentioned in an episode, one row per mention
+export const entities = pgTable(
+  'entities',
+  {
+    id: varchar('id', { length: 191 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    resourceId: varchar('resource_id', { length: 191 })
+      .notNull()
+      .references(() => resources.id, { onDelete: 'cascade' }),
+    // Chunk the mention was found in. Re-embedding deletes the chunks and their
+    // mentions and marks the extract stage as not done, so the next run finds them again.
+    embeddingId: varchar('embedding_id', { length: 191 })
+      .notNull()
+      .references(() => embeddings.id, { onDelete: 'cascade' }),
+    type: varchar('type', { length: 32 }).$type<EntityType>().notNull(),
+    // Canonical name, e.g. "Nike Vaporfly 3" or "Western States 100"
+    name: text('name').notNull(),
+    // Who brought it up, when the transcript makes that clear
+    mentionedBy: text('mentioned_by'),
+    // Whether the speaker recommended it rather than just mentioning it
+    recommended: boolean('recommended').notNull().default(false),
+    // One sentence on what was said about it
+    context: text('context'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    resourceIdIndex: index('entities_resource_id_idx').on(table.resourceId),
+    typeNameIndex: index('entities_type_name_idx').on(table.type, table.name),
+  }),
+);
+
+export type Entity = typeof entities.$inferSelect;
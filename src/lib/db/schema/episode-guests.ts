@@ -0,0 +1,20 @@
+import { index, pgTable, primaryKey, varchar } from 'drizzle-orm/pg-core';
+import { resources } from './resources';
+import { guests } from './guests';
+
+// Which guests appeared on which episodes
+export const episodeGuests = pgTable(
+  'episode_guests',
+  {
+    resourceId: varchar('resource_id', { length: 191 })
+      .notNull()
+      .references(() => resources.id, { onDelete: 'cascade' }),
+    guestId: varchar('guest_id', { length: 191 })
+      .notNull()
+      .references(() => guests.id, { onDelete: 'cascade' }),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.resourceId, table.guestId] }),
+    guestIdIndex: index('episode_guests_guest_id_idx').on(table.guestId),
+  }),
+);
@@ -0,0 +1,24 @@
+import { jsonb, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { nanoid } from './resources';
+import { podcasts } from './podcasts';
+
+// Canonical spellings of names and jargon, with the ways transcription gets them wrong
+export const glossaryTerms = pgTable('glossary_terms', {
+  id: varchar('id', { length: 191 })
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  // Null for terms that apply to every show
+  podcastId: varchar('podcast_id', { length: 191 }).references(() => podcasts.id, {
+    onDelete: 'cascade',
+  }),
+  term: text('term').notNull(),
+  // Misspellings replaced with the term after transcription
+  variants: jsonb('variants').$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // Free-form grouping such as "host", "guest", "race" or "jargon"
+  category: varchar('category', { length: 32 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
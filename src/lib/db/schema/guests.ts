@@ -0,0 +1,26 @@
+import { index, jsonb, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { nanoid } from './resources';
+
+// People who have appeared on a show, one row per person however their name was spelled
+export const guests = pgTable(
+  'guests',
+  {
+    id: varchar('id', { length: 191 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    slug: varchar('slug', { length: 191 }).notNull().unique(),
+    name: text('name').notNull(),
+    // Other spellings merged into this guest, e.g. "Rich Ryan" for "Richard Ryan"
+    aliases: jsonb('aliases').$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    // Slugs of the aliases, for indexed lookups
+    aliasSlugs: jsonb('alias_slugs').$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => ({
+    aliasSlugsIndex: index('guests_alias_slugs_idx').using('gin', table.aliasSlugs),
+  }),
+);
+
+export type Guest = typeof guests.$inferSelect;
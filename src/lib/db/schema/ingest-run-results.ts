@@ -0,0 +1,31 @@
+import { index, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { nanoid } from './resources';
+import { resources } from './resources';
+import { ingestRuns } from './ingest-runs';
+import type { IngestionStage } from '../../ai/ingestion-state';
+
+// Outcome of each stage for each episode processed by a run
+export const ingestRunResults = pgTable(
+  'ingest_run_results',
+  {
+    id: varchar('id', { length: 191 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    runId: varchar('run_id', { length: 191 })
+      .notNull()
+      .references(() => ingestRuns.id, { onDelete: 'cascade' }),
+    // Episode the stage ran for; kept as history when the episode is purged
+    resourceId: varchar('resource_id', { length: 191 })
+      .references(() => resources.id, { onDelete: 'set null' }),
+    stage: varchar('stage', { length: 32 }).$type<IngestionStage>().notNull(),
+    // "completed" or "failed"
+    status: varchar('status', { length: 16 }).$type<'completed' | 'failed'>().notNull(),
+    error: text('error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    runIdIndex: index('ingest_run_results_run_id_idx').on(table.runId),
+  }),
+);
+
+export type IngestRunResult = typeof ingestRunResults.$inferSelect;
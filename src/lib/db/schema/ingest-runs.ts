@@ -0,0 +1,25 @@
+import { jsonb, pgTable, real, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { nanoid } from './resources';
+import type { IngestRunStatus } from '../../ai/ingest-runs';
+
+// One row per invocation of the podcast processing script
+export const ingestRuns = pgTable('ingest_runs', {
+  id: varchar('id', { length: 191 })
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  // Subcommand, e.g. "sync" or "transcribe"
+  command: varchar('command', { length: 32 }).notNull(),
+  // Command-line arguments as passed
+  args: jsonb('args').$type<string[]>().notNull().default([]),
+  // "running" until the run ends; a run that crashed hard stays "running"
+  status: varchar('status', { length: 16 }).$type<IngestRunStatus>().notNull().default('running'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  finishedAt: timestamp('finished_at'),
+  // Why the run stopped early, when it did
+  error: text('error'),
+  // Totals such as episodes selected and embeddings inserted
+  counts: jsonb('counts').$type<Record<string, number>>().notNull().default({}),
+  costUsd: real('cost_usd').notNull().default(0),
+});
+
+export type IngestRun = typeof ingestRuns.$inferSelect;
@@ -0,0 +1,25 @@
+import { integer, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { resources } from './resources';
+
+// Tracks how far each episode has made it through the ingestion pipeline
+export const ingestionState = pgTable('ingestion_state', {
+  resourceId: varchar('resource_id', { length: 191 })
+    .primaryKey()
+    .references(() => resources.id, { onDelete: 'cascade' }),
+  downloadedAt: timestamp('downloaded_at'),
+  downloadError: text('download_error'),
+  // Size and SHA-256 of the verified audio file, used to detect truncated or corrupted copies
+  audioBytes: integer('audio_bytes'),
+  audioSha256: varchar('audio_sha256', { length: 64 }),
+  transcribedAt: timestamp('transcribed_at'),
+  transcribeError: text('transcribe_error'),
+  summarizedAt: timestamp('summarized_at'),
+  summarizeError: text('summarize_error'),
+  embeddedAt: timestamp('embedded_at'),
+  embedError: text('embed_error'),
+  extractedAt: timestamp('extracted_at'),
+  extractError: text('extract_error'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type IngestionState = typeof ingestionState.$inferSelect;
@@ -0,0 +1,25 @@
+import { jsonb, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { nanoid } from './resources';
+
+// Registry of shows, with the settings the pipeline and chat need per show
+export const podcasts = pgTable('podcasts', {
+  id: varchar('id', { length: 191 })
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  slug: varchar('slug', { length: 191 }).notNull().unique(),
+  name: text('name').notNull(),
+  feedUrl: text('feed_url').notNull(),
+  hosts: jsonb('hosts').$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // Describes the show and tone for the chat assistant
+  personaPrompt: text('persona_prompt'),
+  suggestedQueries: jsonb('suggested_queries').$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // HTTP cache validators from the last feed sync, sent back as conditional request headers
+  feedEtag: text('feed_etag'),
+  feedLastModified: text('feed_last_modified'),
+  feedSyncedAt: timestamp('feed_synced_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type Podcast = typeof podcasts.$inferSelect;
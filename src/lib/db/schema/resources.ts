@@ -1,4 +1,8 @@
+import { SQL, sql } from 'drizzle-orm';
 import { pgTable, text, timestamp, varchar, customType, index } from 'drizzle-orm/pg-core';
+import { EMBEDDING_DIMENSIONS } from '../../ai/config';
+import type { EpisodeType } from '../../ai/podcast-feed';
+import { podcasts } from './podcasts';
 
 // Helper function to generate nanoid
 export const nanoid = () => {
@@ -7,9 +11,9 @@ export const nanoid = () => {
 };
 
 // Define a custom vector type for pgvector
-export const pgVector = customType<{ data: number[] }>({
-  dataType() {
-    return 'vector(1536)';
+export const pgVector = customType<{ data: number[]; config: { dimensions?: number } }>({
+  dataType(config) {
+    return `vector(${config?.dimensions ?? EMBEDDING_DIMENSIONS})`;
   },
   toDriver(value: number[]): string {
     // Convert JavaScript array to PostgreSQL vector format
@@ -17,12 +21,22 @@ export const pgVector = customType<{ data: number[] }>({
   },
 });
 
+// Postgres full-text search document, filled in by a generated column
+export const tsVector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 export const resources = pgTable(
   'resources', 
   {
     id: varchar('id', { length: 191 })
       .primaryKey()
       .$defaultFn(() => nanoid()),
+    podcastId: varchar('podcast_id', { length: 191 })
+      .notNull()
+      .references(() => podcasts.id, { onDelete: 'cascade' }),
     guid: varchar('guid', { length: 191 }).unique(),
     title: text('title'),
     link: text('link'),
@@ -32,13 +46,22 @@ export const resources = pgTable(
     author: text('author'),
     duration: text('duration'),
     episodeNumber: varchar('episode_number', { length: 20 }),
+    // "full", "bonus" or "trailer", from the feed's itunes:episodeType
+    episodeType: varchar('episode_type', { length: 16 }).$type<EpisodeType>().notNull().default('full'),
     summary: text('summary'),
     guests: text('guests'),
-    summaryEmbedding: pgVector('summary_embedding'),
+    summaryEmbedding: pgVector('summary_embedding', { dimensions: EMBEDDING_DIMENSIONS }),
+    summaryEmbeddingModel: varchar('summary_embedding_model', { length: 191 }),
+    // Title and summary words for keyword search, title words ranked higher
+    searchVector: tsVector('search_vector').generatedAlwaysAs(
+      (): SQL => sql`setweight(to_tsvector('english', coalesce(${resources.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${resources.summary}, '')), 'B')`,
+    ),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   table => ({
+    podcastIdIndex: index('resources_podcast_id_idx').on(table.podcastId),
+    searchVectorIndex: index('resources_search_vector_idx').using('gin', table.searchVector),
     summaryEmbeddingIndex: index('summary_embedding_idx').using(
       'ivfflat',
       table.summaryEmbedding.op('vector_cosine_ops'),
@@ -49,8 +72,8 @@ export const resources = pgTable(
 export type Resource = typeof resources.$inferSelect;
 export type NewResourceParams = Pick<
   Resource, 
-  'guid' | 'title' | 'link' | 'pubDate' | 'description' | 
-  'enclosureUrl' | 'author' | 'duration' | 'episodeNumber' | 'summary' | 'guests'
+  'podcastId' | 'guid' | 'title' | 'link' | 'pubDate' | 'description' | 
+  'enclosureUrl' | 'author' | 'duration' | 'episodeNumber' | 'episodeType' | 'summary' | 'guests'
 >;
 
 // Schema for inserting a resource - can be used to validate API requests
@@ -0,0 +1,49 @@
+/**
+ * Prompts related to splitting episodes into chapters
+ */
+
+/**
+ * Prompt for dividing an episode transcript into chapters
+ */
+export const CHAPTERS_PROMPT = `
+You are a helpful assistant that writes show notes for podcasts.
+
+Split the podcast episode titled "{{EPISODE_TITLE}}" into chapters, one per topic of conversation,
+like the chapter markers in show notes. Most episodes have between 4 and 12 chapters.
+The first chapter starts at block 0.
+
+The transcript has been divided into numbered blocks, in playback order{{TIMING_NOTE}}.
+
+For each chapter provide:
+- "startBlock": Number of the block where the chapter starts
+- "title": Short chapter title
+- "topic": Topic label of two to four words
+- "blurb": One or two sentences describing what is discussed
+
+Format your response as JSON with one field:
+- "chapters": Array of chapters in playback order
+
+Here are the blocks:
+{{BLOCKS}}
+`;
+
+/**
+ * Creates a formatted prompt listing an episode's transcript blocks
+ * @param episodeTitle The title of the episode
+ * @param blocks Transcript blocks in playback order, with their start time when known
+ * @returns Formatted prompt
+ */
+export function createChaptersPrompt(
+  episodeTitle: string,
+  blocks: { text: string; timestamp: string | null }[]
+): string {
+  const isTimed = blocks.some((block) => block.timestamp !== null);
+  const numberedBlocks = blocks
+    .map((block, i) => `[${i}]${block.timestamp ? ` (${block.timestamp})` : ''} ${block.text}`)
+    .join('\n');
+
+  return CHAPTERS_PROMPT
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{TIMING_NOTE}}', isTimed ? ', each with its start time' : '')
+    .replace('{{BLOCKS}}', numberedBlocks);
+}
@@ -0,0 +1,46 @@
+/**
+ * Prompts related to contextualizing transcript chunks before embedding
+ */
+
+/**
+ * Prompt for writing a line of context for each chunk of an episode
+ */
+export const CHUNK_CONTEXT_PROMPT = `
+You are preparing chunks of the podcast episode "{{EPISODE_TITLE}}" for search.
+Guests: {{GUESTS}}
+
+Each chunk below is a fragment of the conversation. On its own a fragment like
+"yeah so that's what we did in the build" says nothing about what is being discussed.
+For every chunk write one short sentence of context that situates it within the episode:
+who is talking about what, using the section summary given with the chunk.
+Name the specific topic, workout, race, person or product when the chunk is about one.
+Don't repeat the chunk and don't start with "This chunk".
+
+Format your response as JSON with one field:
+- "contexts": Array of objects with "chunk" (the chunk number) and "context" (the sentence)
+
+Here are the chunks:
+{{CHUNKS}}
+`;
+
+/**
+ * Creates a formatted prompt listing chunks with the section each one belongs to
+ * @param episodeTitle The title of the episode
+ * @param guests Names of the episode's guests
+ * @param chunks Numbered chunks with the summary of their section
+ * @returns Formatted prompt
+ */
+export function createChunkContextPrompt(
+  episodeTitle: string,
+  guests: string[],
+  chunks: { number: number; section: string; content: string }[]
+): string {
+  const numberedChunks = chunks
+    .map((chunk) => `[${chunk.number}] Section: ${chunk.section}\n${chunk.content}`)
+    .join('\n\n');
+
+  return CHUNK_CONTEXT_PROMPT
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{GUESTS}}', guests.length > 0 ? guests.join(', ') : 'none, only the hosts')
+    .replace('{{CHUNKS}}', numberedChunks);
+}
@@ -0,0 +1,55 @@
+/**
+ * Prompts related to extracting structured mentions from transcripts
+ */
+
+/**
+ * Prompt for finding races, gear, nutrition products, books and coaches in transcript chunks
+ */
+export const ENTITY_EXTRACTION_PROMPT = `
+You are a helpful assistant that catalogues what is mentioned on a running podcast.
+
+Below are numbered chunks from the transcript of the episode titled "{{EPISODE_TITLE}}".
+The hosts are {{HOSTS}}.
+
+Find every specific mention of:
+- "race": a named race or event (e.g. "Boston Marathon", "Western States 100")
+- "shoe": a running shoe model or shoe brand
+- "gear": other equipment such as watches, vests, poles or apparel
+- "nutrition": a nutrition or supplement product or brand (gels, drink mixes, bars)
+- "book": a book, with its author when mentioned
+- "coach": a coach or coaching method named after a person
+
+Skip generic references ("my shoes", "a gel") that don't name anything specific.
+
+For each mention provide:
+- "chunk": Number of the chunk it appears in
+- "type": One of the types above
+- "name": Canonical name with the brand and model spelled out in full (e.g. "Nike Vaporfly 3", not "the Vaporflys")
+- "mentionedBy": Name of the person who brought it up, or null when it isn't clear
+- "recommended": true when the speaker recommends it, otherwise false
+- "context": One sentence on what was said about it
+
+Format your response as JSON with one field:
+- "entities": Array of mentions
+
+Here are the chunks:
+{{CHUNKS}}
+`;
+
+/**
+ * Creates a formatted prompt for a batch of transcript chunks
+ * @param episodeTitle The title of the episode
+ * @param chunks Chunk text keyed by the number the model should refer to
+ * @param hosts Names of the show's hosts
+ * @returns Formatted prompt
+ */
+export function createEntityExtractionPrompt(
+  episodeTitle: string,
+  chunks: { number: number; content: string }[],
+  hosts: string[] = []
+): string {
+  return ENTITY_EXTRACTION_PROMPT
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{HOSTS}}', hosts.length > 0 ? hosts.join(' and ') : 'not known')
+    .replace('{{CHUNKS}}', chunks.map((chunk) => `[${chunk.number}] ${chunk.content}`).join('\n\n'));
+}
@@ -12,7 +12,7 @@ I need a summary and guest list for this podcast episode titled "{{EPISODE_TITLE
 
 Please provide:
 1. A concise 1-2 paragraph summary of the key topics discussed.
-2. A list of all guests who appear in the episode (not including the hosts Kirk DeWindt and Brakken Kraker).
+2. A list of all guests who appear in the episode (not including the hosts {{HOSTS}}).
 
 Format your response as JSON with two fields:
 - "summary": String containing the 1-2 paragraph summary
@@ -22,19 +22,116 @@ Here's the transcript:
 {{TRANSCRIPT}}
 `;
 
+function formatHosts(hosts: string[]): string {
+  return hosts.length > 0 ? hosts.join(' and ') : 'of the show';
+}
+
 /**
  * Creates a formatted prompt with episode title and transcript
  * @param episodeTitle The title of the episode
  * @param transcript The transcript text
  * @param maxTranscriptLength Maximum length of transcript to include
+ * @param hosts Names of the show's hosts, excluded from the guest list
  * @returns Formatted prompt
  */
 export function createSummaryPrompt(
   episodeTitle: string,
   transcript: string,
-  maxTranscriptLength: number = 15000
+  maxTranscriptLength: number = 15000,
+  hosts: string[] = []
 ): string {
   return PODCAST_SUMMARY_PROMPT
     .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{HOSTS}}', formatHosts(hosts))
     .replace('{{TRANSCRIPT}}', transcript.substring(0, maxTranscriptLength));
-} 
\ No newline at end of file
+} 
+
+/**
+ * Prompt for summarizing one section of a long episode
+ */
+export const PODCAST_SECTION_SUMMARY_PROMPT = `
+You are a helpful assistant that summarizes podcast transcripts.
+
+Below is part {{SECTION_NUMBER}} of {{SECTION_COUNT}} of the transcript of the podcast episode titled "{{EPISODE_TITLE}}".
+
+Please provide:
+1. A concise paragraph covering the topics, advice and stories in this part.
+2. A list of the guests who speak or are interviewed in this part (not including the hosts {{HOSTS}}).
+
+Format your response as JSON with two fields:
+- "summary": String containing the paragraph
+- "guests": Array of strings containing guest names
+
+Here's the transcript section:
+{{TRANSCRIPT}}
+`;
+
+/**
+ * Prompt for combining section summaries into the episode summary and guest list
+ */
+export const PODCAST_COMBINE_SUMMARIES_PROMPT = `
+You are a helpful assistant that creates podcast summaries and identifies guests.
+
+The podcast episode titled "{{EPISODE_TITLE}}" was summarized in parts, in order. Combine them into one summary of the whole episode.
+
+Please provide:
+1. A concise 1-2 paragraph summary of the key topics discussed across the whole episode.
+2. A list of all guests who appear in the episode (not including the hosts {{HOSTS}}), merging different spellings of the same person.
+
+Format your response as JSON with two fields:
+- "summary": String containing the 1-2 paragraph summary
+- "guests": Array of strings containing guest names
+
+Guests named in the parts: {{GUESTS}}
+
+Here are the summaries of each part:
+{{SECTION_SUMMARIES}}
+`;
+
+/**
+ * Creates a formatted prompt for one section of a long transcript
+ * @param episodeTitle The title of the episode
+ * @param section The transcript section
+ * @param sectionIndex Zero-based position of the section
+ * @param sectionCount Number of sections in the episode
+ * @param hosts Names of the show's hosts, excluded from the guest list
+ * @returns Formatted prompt
+ */
+export function createSectionSummaryPrompt(
+  episodeTitle: string,
+  section: string,
+  sectionIndex: number,
+  sectionCount: number,
+  hosts: string[] = []
+): string {
+  return PODCAST_SECTION_SUMMARY_PROMPT
+    .replace('{{SECTION_NUMBER}}', String(sectionIndex + 1))
+    .replace('{{SECTION_COUNT}}', String(sectionCount))
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{HOSTS}}', formatHosts(hosts))
+    .replace('{{TRANSCRIPT}}', section);
+}
+
+/**
+ * Creates a formatted prompt that merges section summaries
+ * @param episodeTitle The title of the episode
+ * @param sectionSummaries Summary of each section, in order
+ * @param guests Guests found in the sections
+ * @param hosts Names of the show's hosts, excluded from the guest list
+ * @returns Formatted prompt
+ */
+export function createCombineSummariesPrompt(
+  episodeTitle: string,
+  sectionSummaries: string[],
+  guests: string[],
+  hosts: string[] = []
+): string {
+  return PODCAST_COMBINE_SUMMARIES_PROMPT
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{HOSTS}}', formatHosts(hosts))
+    .replace('{{GUESTS}}', guests.length > 0 ? guests.join(', ') : 'none')
+    .replace(
+      '{{SECTION_SUMMARIES}}',
+      sectionSummaries.map((summary, i) => `Part ${i + 1}: ${summary}`).join('\n\n')
+    );
+}
@@ -0,0 +1,46 @@
+/**
+ * Prompts related to reranking retrieved transcript passages
+ */
+
+/**
+ * Prompt for scoring how well each passage answers a question
+ */
+export const RERANK_PROMPT = `
+You are judging search results from a running podcast.
+
+Question: {{QUERY}}
+
+Score how well each numbered passage below helps answer the question, from 0 to 10:
+- 10: directly answers it with specifics (the workout, numbers, race, product or advice asked about)
+- 5: on the topic but only partly answers it, or answers a related question
+- 0: unrelated, or only shares a word with the question
+
+Judge the substance, not the wording. Score every passage.
+
+Format your response as JSON with one field:
+- "scores": Array of objects with "passage" (the passage number) and "score"
+
+Here are the passages:
+{{PASSAGES}}
+`;
+
+/**
+ * Creates a formatted prompt listing the passages to score
+ * @param query The user's question
+ * @param passages Passage text keyed by the number the model should refer to
+ * @param maxPassageLength Maximum characters of each passage to include
+ * @returns Formatted prompt
+ */
+export function createRerankPrompt(
+  query: string,
+  passages: { number: number; content: string }[],
+  maxPassageLength: number = 1500
+): string {
+  const numberedPassages = passages
+    .map((passage) => `[${passage.number}] ${passage.content.substring(0, maxPassageLength)}`)
+    .join('\n\n');
+
+  return RERANK_PROMPT
+    .replace('{{QUERY}}', query)
+    .replace('{{PASSAGES}}', numberedPassages);
+}
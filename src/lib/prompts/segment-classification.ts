@@ -0,0 +1,48 @@
+/**
+ * Prompts related to classifying transcript chunks
+ */
+
+/**
+ * Prompt for finding the intro, ad read and outro chunks of an episode
+ */
+export const SEGMENT_CLASSIFICATION_PROMPT = `
+You are labelling the transcript of the podcast episode "{{EPISODE_TITLE}}" so that
+only the actual conversation is used for search.
+
+The transcript has been split into numbered chunks, in playback order. Identify:
+- "intro": the show's recurring opening (welcome, show introduction, housekeeping before the conversation starts)
+- "ad": sponsor reads and promotions, including the show's own plans, coaching, memberships or merchandise
+- "outro": the recurring closing (thanks for listening, reviews, subscribe requests, sign-off)
+
+Every other chunk is content. Label a chunk as intro, ad or outro only when most of it is that material;
+a chunk that mixes a promotion with real discussion is content.
+
+Format your response as JSON with three fields, each an array of chunk numbers:
+- "intro"
+- "ad"
+- "outro"
+
+Here are the chunks:
+{{CHUNKS}}
+`;
+
+/**
+ * Creates a formatted prompt listing an episode's chunks
+ * @param episodeTitle The title of the episode
+ * @param chunks Transcript chunks in playback order
+ * @param maxChunkLength Maximum characters of each chunk to include
+ * @returns Formatted prompt
+ */
+export function createSegmentClassificationPrompt(
+  episodeTitle: string,
+  chunks: string[],
+  maxChunkLength: number = 1000
+): string {
+  const numberedChunks = chunks
+    .map((chunk, i) => `[${i}] ${chunk.substring(0, maxChunkLength)}`)
+    .join('\n\n');
+
+  return SEGMENT_CLASSIFICATION_PROMPT
+    .replace('{{EPISODE_TITLE}}', episodeTitle)
+    .replace('{{CHUNKS}}', numberedChunks);
+}